@@ -0,0 +1,162 @@
+// @vitest-environment jsdom
+
+// Accessibility checks with axe-core on public/index.html and public/map.html in jsdom.
+// The search page is driven by the real client code, with the API answered in-process,
+// so the checks also cover what the scripts render: translated text, the community list,
+// inline field errors, the error box and result cards.
+
+import axe from 'axe-core';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RegionsResponse } from '../shared/regions';
+import { SearchResponse } from '../shared/schema';
+import { ConsentManager } from './consent';
+import { LanguageManager } from './i18n';
+import { MapManager } from './map';
+import { SearchManager } from './search';
+
+const ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), '../..');
+
+const RESULTS: SearchResponse = {
+  success: true,
+  page: 1,
+  hasMore: false,
+  results: [
+    {
+      name: 'ՊԵՏՐՈՍՅԱՆ ԱՐՄԵՆ ԱՎԹԱՆԴԻԼԻ',
+      birth_date: '11/03/1990',
+      region_community: 'ԵՐԵՎԱՆ, ԱՐԱԲԿԻՐ',
+      address: 'ԿՈՄԻՏԱՍ Փ. 7 10',
+      district: '9/35',
+    },
+    {
+      name: 'ՊԵՏՐՈՍՅԱՆ ԱՐՄԵՆ ՍԱՄՎԵԼԻ',
+      birth_date: '',
+      region_community: 'ԵՐԵՎԱՆ, ԿԵՆՏՐՈՆ',
+      address: 'ԱԲՈՎՅԱՆ Փ. * *',
+      district: '9/05',
+      masked: true,
+    },
+  ],
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function loadPage(file: string): void {
+  const html = readFileSync(path.join(ROOT, 'public', file), 'utf8');
+  document.documentElement.innerHTML = html.replace(/^[\s\S]*?<html[^>]*>/i, '');
+  document.documentElement.lang = 'hy';
+}
+
+// Colour contrast needs layout and canvas, which jsdom does not have
+async function violations(): Promise<string[]> {
+  const results = await axe.run(document.documentElement, {
+    rules: { 'color-contrast': { enabled: false } },
+  });
+  return results.violations.map(
+    violation =>
+      `${violation.id}: ${violation.help} (${violation.nodes.map(node => node.target).join(', ')})`
+  );
+}
+
+describe('accessibility', () => {
+  let searchResponse: Response;
+
+  beforeEach(() => {
+    localStorage.clear();
+    // Not implemented by jsdom
+    Element.prototype.scrollIntoView = () => {};
+    searchResponse = json(RESULTS);
+
+    const regions = JSON.parse(readFileSync(path.join(ROOT, 'data/regions.json'), 'utf8'));
+    vi.stubGlobal('fetch', async (url: string) => {
+      if (url === '/api/regions') {
+        return json({ success: true, regions: regions.regions } satisfies RegionsResponse);
+      }
+      if (url === '/api/search') return searchResponse;
+      // The shipped polling-station dataset is empty
+      return json({ success: false, error: 'No dataset' }, 503);
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // What app.ts does once the DOM is ready
+  async function startSearchPage(): Promise<HTMLFormElement> {
+    loadPage('index.html');
+    const i18n = new LanguageManager();
+    new SearchManager(new MapManager(i18n), new ConsentManager(), i18n);
+    const region = document.getElementById('region') as HTMLSelectElement;
+    await vi.waitFor(() => expect(region.options.length).toBeGreaterThan(1));
+    return document.getElementById('searchForm') as HTMLFormElement;
+  }
+
+  function fill(values: Record<string, string>): void {
+    for (const [id, value] of Object.entries(values)) {
+      (document.getElementById(id) as HTMLInputElement).value = value;
+    }
+  }
+
+  it('finds no violations on the search page as loaded', async () => {
+    await startSearchPage();
+
+    expect(await violations()).toEqual([]);
+  });
+
+  it('finds none in another language', async () => {
+    localStorage.setItem('aixreg.language', 'en');
+    await startSearchPage();
+
+    expect(document.documentElement.lang).toBe('en');
+    expect(await violations()).toEqual([]);
+  });
+
+  it('finds none with inline field errors shown', async () => {
+    const form = await startSearchPage();
+    fill({ firstName: 'Ա', lastName: '' });
+
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+
+    expect(document.getElementById('firstName')?.getAttribute('aria-invalid')).toBe('true');
+    expect(await violations()).toEqual([]);
+  });
+
+  it('finds none with results shown', async () => {
+    const form = await startSearchPage();
+    fill({ firstName: 'Արմեն', lastName: 'Պետրոսյան' });
+
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+    await vi.waitFor(() =>
+      expect(document.querySelectorAll('#resultsList .result-item')).toHaveLength(2)
+    );
+
+    expect(await violations()).toEqual([]);
+  });
+
+  it('finds none with the error box shown', async () => {
+    searchResponse = json({ success: false, code: 'UPSTREAM_UNAVAILABLE', error: 'Down' }, 503);
+    const form = await startSearchPage();
+    fill({ firstName: 'Արմեն', lastName: 'Պետրոսյան' });
+
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+    const error = document.getElementById('errorMessage') as HTMLElement;
+    await vi.waitFor(() => expect(error.style.display).not.toBe('none'));
+
+    expect(await violations()).toEqual([]);
+  });
+
+  it('finds no violations on the map page markup', async () => {
+    loadPage('map.html');
+
+    expect(await violations()).toEqual([]);
+  });
+});
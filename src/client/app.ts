@@ -1,10 +1,14 @@
 import { SearchManager } from './search';
 import { MapManager } from './map';
+import { ConsentManager } from './consent';
+import { LanguageManager } from './i18n';
 
 // Initialize app when DOM is ready
 document.addEventListener('DOMContentLoaded', () => {
-  const mapManager = new MapManager();
-  const searchManager = new SearchManager(mapManager);
+  const i18n = new LanguageManager();
+  const mapManager = new MapManager(i18n);
+  const consentManager = new ConsentManager();
+  new SearchManager(mapManager, consentManager, i18n);
 
   console.log('✓ Election Registry App initialized');
 });
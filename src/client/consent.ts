@@ -0,0 +1,65 @@
+// Opt-in consent for anonymous usage metrics.
+// Nothing is counted server-side unless the user accepts the banner.
+
+const STORAGE_KEY = 'aixreg.metricsConsent';
+
+type ConsentChoice = 'granted' | 'denied';
+
+export class ConsentManager {
+  private banner: HTMLElement;
+  private acceptButton: HTMLButtonElement;
+  private declineButton: HTMLButtonElement;
+  private settingsLink: HTMLElement;
+  private choice: ConsentChoice | null = null;
+
+  constructor() {
+    this.banner = document.getElementById('consentBanner') as HTMLElement;
+    this.acceptButton = document.getElementById('consentAccept') as HTMLButtonElement;
+    this.declineButton = document.getElementById('consentDecline') as HTMLButtonElement;
+    this.settingsLink = document.getElementById('consentSettings') as HTMLElement;
+
+    this.setupEventListeners();
+
+    if (!this.getChoice()) {
+      this.showBanner();
+    }
+  }
+
+  public hasConsent(): boolean {
+    return this.getChoice() === 'granted';
+  }
+
+  private setupEventListeners(): void {
+    this.acceptButton.addEventListener('click', () => this.setChoice('granted'));
+    this.declineButton.addEventListener('click', () => this.setChoice('denied'));
+    this.settingsLink.addEventListener('click', e => {
+      e.preventDefault();
+      this.showBanner();
+    });
+  }
+
+  private getChoice(): ConsentChoice | null {
+    if (this.choice) return this.choice;
+
+    try {
+      const value = localStorage.getItem(STORAGE_KEY);
+      return value === 'granted' || value === 'denied' ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private setChoice(choice: ConsentChoice): void {
+    this.choice = choice;
+    try {
+      localStorage.setItem(STORAGE_KEY, choice);
+    } catch {
+      // Storage unavailable (private mode): the choice only lasts for this page view
+    }
+    this.banner.style.display = 'none';
+  }
+
+  private showBanner(): void {
+    this.banner.style.display = 'block';
+  }
+}
@@ -0,0 +1,81 @@
+// Page language: hy, en or ru from the shared message catalogs. The choice is kept in
+// localStorage and sent to the API as Accept-Language, so server messages match the page.
+// Static text is marked in the HTML with data-i18n (text), data-i18n-placeholder and
+// data-i18n-aria-label; the HTML itself holds the Armenian text.
+
+import {
+  Language,
+  MessageKey,
+  MessageParams,
+  isLanguage,
+  negotiateLanguage,
+  translate,
+} from '../shared/i18n';
+
+const STORAGE_KEY = 'aixreg.language';
+
+export class LanguageManager {
+  private language: Language;
+  private listeners: Array<() => void> = [];
+
+  constructor() {
+    this.language = this.storedLanguage() || negotiateLanguage(navigator.languages?.join(','));
+    this.applyToPage();
+
+    const switcher = document.getElementById('languageSwitcher') as HTMLSelectElement | null;
+    if (switcher) {
+      switcher.value = this.language;
+      switcher.addEventListener('change', () => {
+        if (isLanguage(switcher.value)) this.setLanguage(switcher.value);
+      });
+    }
+  }
+
+  public get current(): Language {
+    return this.language;
+  }
+
+  public t(key: MessageKey, params?: MessageParams): string {
+    return translate(this.language, key, params);
+  }
+
+  // Called after the page text has been switched to a new language
+  public onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  public setLanguage(language: Language): void {
+    this.language = language;
+    try {
+      localStorage.setItem(STORAGE_KEY, language);
+    } catch {
+      // Storage unavailable (private mode): the choice only lasts for this page view
+    }
+
+    this.applyToPage();
+    this.listeners.forEach(listener => listener());
+  }
+
+  private storedLanguage(): Language | null {
+    try {
+      const value = localStorage.getItem(STORAGE_KEY);
+      return isLanguage(value) ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private applyToPage(): void {
+    document.documentElement.lang = this.language;
+
+    document.querySelectorAll<HTMLElement>('[data-i18n]').forEach(element => {
+      element.textContent = this.t(element.dataset.i18n as MessageKey);
+    });
+    document.querySelectorAll<HTMLInputElement>('[data-i18n-placeholder]').forEach(element => {
+      element.placeholder = this.t(element.dataset.i18nPlaceholder as MessageKey);
+    });
+    document.querySelectorAll<HTMLElement>('[data-i18n-aria-label]').forEach(element => {
+      element.setAttribute('aria-label', this.t(element.dataset.i18nAriaLabel as MessageKey));
+    });
+  }
+}
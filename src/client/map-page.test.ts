@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+
+// public/map.html driven by the real map-page script and Leaflet, with /api/precincts
+// answered from the fictional stations in fixtures/registry/precincts.json.
+
+import { readFileSync } from 'fs';
+import * as Leaflet from 'leaflet';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PollingStation } from '../shared/precinct';
+
+const ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), '../..');
+
+const STATIONS: PollingStation[] = JSON.parse(
+  readFileSync(path.join(ROOT, 'fixtures/registry/precincts.json'), 'utf8')
+).precincts;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// Open map.html for the precinct and run its script
+async function openMap(precinct: string): Promise<void> {
+  const html = readFileSync(path.join(ROOT, 'public/map.html'), 'utf8');
+  document.documentElement.innerHTML = html.replace(/^[\s\S]*?<html[^>]*>/i, '');
+  window.history.replaceState(null, '', `/map.html?precinct=${precinct}`);
+  document.dispatchEvent(new Event('DOMContentLoaded'));
+}
+
+const text = (id: string) => document.getElementById(id)?.textContent;
+
+describe('map page', () => {
+  let requested: string[];
+
+  beforeAll(async () => {
+    await import('./map-page');
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    requested = [];
+    // The page loads Leaflet with a script tag
+    vi.stubGlobal('L', Leaflet);
+    vi.stubGlobal('fetch', async (url: string) => {
+      requested.push(url);
+      const id = url.replace('/api/precincts/', '').replace('-', '/');
+      const precinct = STATIONS.find(station => station.id === id);
+      return precinct
+        ? json({ success: true, precinct: { hours: '08:00-20:00', ...precinct } })
+        : json({ success: false, error: 'Not found' }, 404);
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('puts a marker on the station and shows its address', async () => {
+    await openMap('9-35');
+
+    await vi.waitFor(() => expect(document.querySelector('.leaflet-marker-icon')).not.toBeNull());
+    expect(requested).toEqual(['/api/precincts/9-35']);
+    expect(text('precinctDisplay')).toBe('9/35');
+    expect(text('placeDisplay')).toBe('Դպրոց N 1 (fictional), ԿՈՄԻՏԱՍ Փ. 12');
+    expect(text('hoursDisplay')).toBe('🕗 08:00-20:00');
+    expect(document.querySelector('.leaflet-popup-content')?.textContent).toContain(
+      'ԿՈՄԻՏԱՍ Փ. 12'
+    );
+    expect(document.getElementById('routeFromHere')?.hidden).toBe(false);
+  });
+
+  it('shows no marker for a precinct the dataset does not list', async () => {
+    await openMap('9-99');
+
+    await vi.waitFor(() => expect(document.querySelector('.map-fallback')).not.toBeNull());
+    expect(document.querySelector('.leaflet-marker-icon')).toBeNull();
+    expect(text('placeDisplay')).toBe('—');
+    expect(document.querySelector('.map-fallback-address')?.textContent).toBe('9/99');
+  });
+});
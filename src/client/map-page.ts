@@ -0,0 +1,197 @@
+import type * as Leaflet from 'leaflet';
+import { PollingStation, formatPrecinctId, parsePrecinctId } from '../shared/precinct';
+import { PrecinctLookup } from './precincts';
+import { LanguageManager } from './i18n';
+
+// Script of public/map.html: shows a voter's polling station from the precinct dataset.
+// The page only receives the precinct id (?precinct=9-35); the voter's name and home
+// address never reach it, so they cannot leak to the tile server or any other service.
+// The page follows the language chosen on the search page.
+// Leaflet is loaded by the page itself and exposes the global L; only its types are imported.
+declare const L: typeof Leaflet;
+
+interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// Yerevan city centre, shown until the station is known
+const DEFAULT_CENTER: Leaflet.LatLngTuple = [40.1792, 44.5086];
+const STATION_ZOOM = 16;
+
+// Great-circle distance in kilometres
+function distanceKm(a: LatLng, b: LatLng): number {
+  const rad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * rad;
+  const dLng = (b.lng - a.lng) * rad;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+// Walking directions between two points; only these coordinates are in the link
+function directionsUrl(from: LatLng, to: LatLng): string {
+  const route = `${from.lat.toFixed(5)},${from.lng.toFixed(5)};${to.lat},${to.lng}`;
+  return `https://www.openstreetmap.org/directions?engine=fossgis_osrm_foot&route=${encodeURIComponent(route)}`;
+}
+
+class MapPage {
+  private readonly container: HTMLElement;
+  private readonly routeButton: HTMLButtonElement;
+  private readonly footer: HTMLElement;
+  private map: Leaflet.Map | null = null;
+  private station: PollingStation | null = null;
+  private routeLayer: Leaflet.LayerGroup | null = null;
+  private readonly i18n = new LanguageManager();
+
+  constructor() {
+    this.container = document.getElementById('stationMap') as HTMLElement;
+    this.routeButton = document.getElementById('routeFromHere') as HTMLButtonElement;
+    this.footer = document.getElementById('mapFooter') as HTMLElement;
+
+    document.getElementById('closeMap')?.addEventListener('click', () => window.close());
+    this.routeButton.addEventListener('click', () => this.routeFromHere());
+
+    // Redraw once images and fonts have settled the layout
+    window.addEventListener('load', () => this.map?.invalidateSize());
+  }
+
+  async init(): Promise<void> {
+    this.map = L.map(this.container, { center: DEFAULT_CENTER, zoom: 12 });
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '© OpenStreetMap contributors',
+      maxZoom: 19,
+    }).addTo(this.map);
+
+    const id = parsePrecinctId(new URLSearchParams(window.location.search).get('precinct') || '');
+    if (!id) {
+      this.setText('placeDisplay', '—');
+      this.showMessage(this.i18n.t('map.noPrecinct'));
+      return;
+    }
+
+    const precinct = formatPrecinctId(id);
+    this.setText('precinctDisplay', precinct);
+
+    const lookup = new PrecinctLookup();
+    const station = await lookup.find(precinct);
+    if (!station) {
+      this.setText('placeDisplay', '—');
+      if (lookup.datasetMissing) {
+        this.showMessage(this.i18n.t('map.noDataset'));
+      } else {
+        this.showMessage(this.i18n.t('map.notInDataset'), precinct);
+      }
+      return;
+    }
+
+    this.station = station;
+    const place = station.place ? `${station.place}, ${station.address}` : station.address;
+    this.setText('placeDisplay', place);
+    this.setText('hoursDisplay', `🕗 ${station.hours}`);
+    (document.getElementById('hoursDisplay') as HTMLElement).hidden = false;
+
+    if (!station.location) {
+      this.showMessage(this.i18n.t('map.noLocation'), place);
+      return;
+    }
+
+    const { lat, lng } = station.location;
+    this.map.setView([lat, lng], STATION_ZOOM);
+    L.marker([lat, lng]).addTo(this.map).bindPopup(this.popupContent(station)).openPopup();
+    this.routeButton.hidden = false;
+  }
+
+  // Uses only the position the browser gives us, after the user agrees to share it
+  private routeFromHere(): void {
+    if (!this.station?.location) return;
+
+    if (!('geolocation' in navigator)) {
+      this.footer.textContent = this.i18n.t('map.noGeolocation');
+      return;
+    }
+
+    this.routeButton.disabled = true;
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        this.routeButton.disabled = false;
+        this.showRoute({ lat: position.coords.latitude, lng: position.coords.longitude });
+      },
+      () => {
+        this.routeButton.disabled = false;
+        this.footer.textContent = this.i18n.t('map.locationUnavailable');
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 60000 }
+    );
+  }
+
+  private showRoute(here: LatLng): void {
+    const target = this.station?.location;
+    const map = this.map;
+    if (!target || !map) return;
+
+    if (this.routeLayer) map.removeLayer(this.routeLayer);
+    this.routeLayer = L.layerGroup([
+      L.circleMarker([here.lat, here.lng], { radius: 8, color: '#f59e0b' }).bindTooltip(
+        this.i18n.t('map.youAreHere')
+      ),
+      L.polyline(
+        [
+          [here.lat, here.lng],
+          [target.lat, target.lng],
+        ],
+        { color: '#2dd4bf', dashArray: '6 8' }
+      ),
+    ]).addTo(map);
+    map.fitBounds(
+      L.latLngBounds([
+        [here.lat, here.lng],
+        [target.lat, target.lng],
+      ]),
+      { padding: [40, 40] }
+    );
+
+    const km = distanceKm(here, target);
+    const link = document.createElement('a');
+    link.href = directionsUrl(here, target);
+    link.target = '_blank';
+    link.rel = 'noopener noreferrer';
+    link.textContent = this.i18n.t('map.directions');
+
+    this.footer.textContent = `${this.i18n.t('map.distance', { km: km.toFixed(1) })} · `;
+    this.footer.appendChild(link);
+  }
+
+  private popupContent(station: PollingStation): HTMLElement {
+    const popup = document.createElement('div');
+    const title = document.createElement('strong');
+    title.textContent = station.place || this.i18n.t('map.precinct', { id: station.id });
+    popup.append(title, document.createElement('br'), station.address);
+    popup.append(document.createElement('br'), `🕗 ${station.hours}`);
+    return popup;
+  }
+
+  private showMessage(message: string, detail?: string): void {
+    const box = document.createElement('div');
+    box.className = 'map-fallback';
+    const text = document.createElement('p');
+    text.textContent = `⚠️ ${message}`;
+    if (detail) {
+      const span = document.createElement('span');
+      span.className = 'map-fallback-address';
+      span.textContent = detail;
+      text.append(document.createElement('br'), span);
+    }
+    box.appendChild(text);
+    this.container.appendChild(box);
+  }
+
+  private setText(id: string, text: string): void {
+    (document.getElementById(id) as HTMLElement).textContent = text;
+  }
+}
+
+document.addEventListener('DOMContentLoaded', () => {
+  new MapPage().init();
+});
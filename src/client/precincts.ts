@@ -0,0 +1,46 @@
+// "Where you vote": polling stations for the district column of result cards.
+// Each precinct is fetched once per page load; unknown precincts resolve to null.
+// A 503 means the server has no dataset at all, so nothing more is asked for.
+
+import {
+  PollingStation,
+  PrecinctResponse,
+  parsePrecinctId,
+  precinctPathSegment,
+} from '../shared/precinct';
+
+export class PrecinctLookup {
+  private cache = new Map<string, Promise<PollingStation | null>>();
+
+  // Set once the server reports an empty polling-station dataset
+  public datasetMissing = false;
+
+  public find(district: string): Promise<PollingStation | null> {
+    const id = parsePrecinctId(district);
+    if (!id || this.datasetMissing) return Promise.resolve(null);
+
+    const segment = precinctPathSegment(id);
+    let station = this.cache.get(segment);
+    if (!station) {
+      station = this.fetchStation(segment);
+      this.cache.set(segment, station);
+    }
+    return station;
+  }
+
+  private async fetchStation(segment: string): Promise<PollingStation | null> {
+    try {
+      const response = await fetch(`/api/precincts/${segment}`);
+      if (response.status === 503) this.datasetMissing = true;
+      if (!response.ok) return null;
+
+      const result: PrecinctResponse = await response.json();
+      return result.precinct || null;
+    } catch (error) {
+      console.error('Polling station lookup failed:', error);
+      // Let a later search try again
+      this.cache.delete(segment);
+      return null;
+    }
+  }
+}
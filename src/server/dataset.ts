@@ -0,0 +1,44 @@
+// Reading the JSON datasets loaded once at startup (data/regions.json and
+// data/precincts.json). Each file is an object holding one array of entries.
+
+import { readFileSync } from 'fs';
+import { ConfigError } from './config.js';
+
+// Parse a dataset file; throws ConfigError naming it if it is missing or not JSON
+export function readDatasetFile(file: string, label: string): unknown {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new ConfigError([`${label} ${file} could not be read: ${(error as Error).message}`]);
+  }
+}
+
+export interface DatasetEntry<T> {
+  entry: Partial<T> | undefined;
+  // Location for problem messages, e.g. "data/precincts.json: precincts[3]"
+  where: string;
+}
+
+// Walks a dataset's entries, recording a problem instead of throwing on the first one
+export class DatasetReader {
+  readonly problems: string[] = [];
+
+  constructor(readonly source: string) {}
+
+  // The entries of the array under key; throws ConfigError if there is no such array
+  entries<T>(data: unknown, key: string): Array<DatasetEntry<T>> {
+    const list = (data as Record<string, unknown> | null)?.[key];
+    if (!Array.isArray(list)) {
+      throw new ConfigError([`${this.source}: expected an object with a "${key}" array`]);
+    }
+
+    return list.map((entry, index) => ({ entry, where: `${this.source}: ${key}[${index}]` }));
+  }
+
+  // Throws ConfigError listing everything recorded
+  finish(): void {
+    if (this.problems.length > 0) {
+      throw new ConfigError(this.problems);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { ErrorCode, FieldError } from '../shared/schema.js';
+import { DEFAULT_LANGUAGE, Language, translate } from '../shared/i18n.js';
+
+// Typed errors for /api/search. Each carries a stable code and the HTTP status it maps to,
+// so the route never has to guess from error message text.
+
+// HTTP status of each code; also the source of the error responses in the OpenAPI document
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  VALIDATION: 400,
+  UPSTREAM_UNAVAILABLE: 503,
+  TOKEN_UNAVAILABLE: 503,
+  PARSE_FAILED: 502,
+  TIMEOUT: 504,
+  RATE_LIMITED: 429,
+  SHUTTING_DOWN: 503,
+  INTERNAL: 500,
+};
+
+export class SearchError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  // Seconds the client should wait before retrying (sent as Retry-After)
+  readonly retryAfter?: number;
+
+  constructor(code: ErrorCode, status: number, message: string, retryAfter?: number) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class ValidationError extends SearchError {
+  readonly errors: FieldError[];
+
+  constructor(errors: FieldError[]) {
+    super('VALIDATION', ERROR_STATUS.VALIDATION, 'Invalid search request');
+    this.errors = errors;
+  }
+}
+
+// The registry refused or failed the request (403/402/5xx, network errors)
+export class UpstreamUnavailableError extends SearchError {
+  constructor(message: string, retryAfter = 60) {
+    super('UPSTREAM_UNAVAILABLE', ERROR_STATUS.UPSTREAM_UNAVAILABLE, message, retryAfter);
+  }
+}
+
+// The registry answered but no anti-forgery token could be obtained
+export class TokenUnavailableError extends SearchError {
+  constructor(message: string, retryAfter = 30) {
+    super('TOKEN_UNAVAILABLE', ERROR_STATUS.TOKEN_UNAVAILABLE, message, retryAfter);
+  }
+}
+
+// The registry page could not be read (unknown page or changed layout)
+export class ParseFailedError extends SearchError {
+  constructor(message: string) {
+    super('PARSE_FAILED', ERROR_STATUS.PARSE_FAILED, message);
+  }
+}
+
+export class UpstreamTimeoutError extends SearchError {
+  constructor(message: string) {
+    super('TIMEOUT', ERROR_STATUS.TIMEOUT, message);
+  }
+}
+
+// Too many searches from one client, or the upstream queue is full
+export class RateLimitedError extends SearchError {
+  constructor(message: string, retryAfter: number) {
+    super('RATE_LIMITED', ERROR_STATUS.RATE_LIMITED, message, retryAfter);
+  }
+}
+
+// The server is draining for a restart or deploy; another instance will answer shortly
+export class ShuttingDownError extends SearchError {
+  constructor(message: string, retryAfter = 5) {
+    super('SHUTTING_DOWN', ERROR_STATUS.SHUTTING_DOWN, message, retryAfter);
+  }
+}
+
+// User-facing text per code, from the shared message catalogs; details stay in the logs
+export function errorMessage(code: ErrorCode, language: Language = DEFAULT_LANGUAGE): string {
+  return translate(language, `error.${code}`);
+}
+
+// Timeouts from got surface as TimeoutError / ETIMEDOUT
+function isTimeout(error: unknown): boolean {
+  const err = error as { name?: string; code?: string };
+  return err?.name === 'TimeoutError' || err?.code === 'ETIMEDOUT';
+}
+
+// Classify a transport-level failure of a registry request
+export function toUpstreamError(error: unknown, context: string): SearchError {
+  if (error instanceof SearchError) return error;
+
+  const message = `${context}: ${(error as Error)?.message || String(error)}`;
+  return isTimeout(error)
+    ? new UpstreamTimeoutError(message)
+    : new UpstreamUnavailableError(message);
+}
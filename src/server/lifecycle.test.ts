@@ -0,0 +1,108 @@
+import { EventEmitter } from 'events';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SearchResponse } from '../shared/schema.js';
+import { ShuttingDownError } from './errors.js';
+import { Lifecycle } from './lifecycle.js';
+import { TestServer, startTestServer } from './test-support.js';
+
+describe('Lifecycle', () => {
+  it('counts a tracked response until it closes', () => {
+    const lifecycle = new Lifecycle();
+    const res = new EventEmitter();
+
+    lifecycle.track(res);
+    expect(lifecycle.activeSearches).toBe(1);
+
+    res.emit('close');
+    expect(lifecycle.activeSearches).toBe(0);
+  });
+
+  it('drains at once when nothing is running', async () => {
+    const lifecycle = new Lifecycle();
+
+    expect(await lifecycle.drain(1000)).toBe(true);
+    expect(lifecycle.isDraining).toBe(true);
+    expect(lifecycle.signal.aborted).toBe(false);
+  });
+
+  it('resolves the drain cleanly once the running searches finish', async () => {
+    const lifecycle = new Lifecycle();
+    const res = new EventEmitter();
+    lifecycle.track(res);
+
+    const drained = lifecycle.drain(5000);
+    res.emit('close');
+
+    expect(await drained).toBe(true);
+    expect(lifecycle.signal.aborted).toBe(false);
+  });
+
+  it('aborts the signal with ShuttingDownError when the drain times out', async () => {
+    const lifecycle = new Lifecycle();
+    lifecycle.track(new EventEmitter());
+
+    expect(await lifecycle.drain(10)).toBe(false);
+    expect(lifecycle.signal.aborted).toBe(true);
+    expect(lifecycle.signal.reason).toBeInstanceOf(ShuttingDownError);
+  });
+
+  it('waits for idle no longer than the timeout', async () => {
+    const lifecycle = new Lifecycle();
+    lifecycle.track(new EventEmitter());
+
+    await lifecycle.waitForIdle(10);
+
+    expect(lifecycle.activeSearches).toBe(1);
+  });
+});
+
+describe('/api/search during shutdown', () => {
+  const ARMEN = { first_name: 'ԱՐՄԵՆ', last_name: 'ՊԵՏՐՈՍՅԱՆ' };
+  let server: TestServer;
+  let lifecycle: Lifecycle;
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  async function start(responseDelayMs = 0): Promise<void> {
+    lifecycle = new Lifecycle();
+    server = await startTestServer({ app: { lifecycle } });
+    server.fake.behavior.responseDelayMs = responseDelayMs;
+  }
+
+  it('turns new searches away with SHUTTING_DOWN and Retry-After', async () => {
+    await start();
+    await lifecycle.drain(1000);
+
+    const response = await server.post<SearchResponse>('/api/search', ARMEN);
+
+    expect(response.status).toBe(503);
+    expect(response.body.code).toBe('SHUTTING_DOWN');
+    expect(Number(response.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(server.fake.stats.searchRequests).toBe(0);
+  });
+
+  it('lets a running search finish within the drain timeout', async () => {
+    await start(200);
+
+    const running = server.post<SearchResponse>('/api/search', ARMEN);
+    await vi.waitFor(() => expect(lifecycle.activeSearches).toBe(1));
+
+    expect(await lifecycle.drain(5000)).toBe(true);
+    expect((await running).status).toBe(200);
+  });
+
+  it('cancels a running search once the drain timeout passes', async () => {
+    await start(5000);
+
+    const running = server.post<SearchResponse>('/api/search', ARMEN);
+    await vi.waitFor(() => expect(lifecycle.activeSearches).toBe(1));
+
+    expect(await lifecycle.drain(100)).toBe(false);
+    const response = await running;
+    expect(response.status).toBe(503);
+    expect(response.body.code).toBe('SHUTTING_DOWN');
+    await vi.waitFor(() => expect(lifecycle.activeSearches).toBe(0));
+  });
+});
@@ -0,0 +1,70 @@
+// Server lifecycle for graceful shutdown: once draining starts, new searches are turned
+// away while the ones already running get a chance to finish.
+
+import { ShuttingDownError } from './errors.js';
+
+export class Lifecycle {
+  private draining = false;
+  private inFlight = 0;
+  private idleWaiters: Array<() => void> = [];
+  // Aborted when the drain timeout passes, cancelling whatever is still running
+  private readonly controller = new AbortController();
+
+  get isDraining(): boolean {
+    return this.draining;
+  }
+
+  get activeSearches(): number {
+    return this.inFlight;
+  }
+
+  // Aborts once shutdown gives up waiting; searches abort their upstream work with it
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  // Count a search until its response is closed
+  track(res: { once(event: 'close', listener: () => void): unknown }): void {
+    this.inFlight++;
+    res.once('close', () => {
+      this.inFlight--;
+      if (this.inFlight === 0) {
+        this.idleWaiters.splice(0).forEach(resolve => resolve());
+      }
+    });
+  }
+
+  // Stop taking new searches and wait up to timeoutMs for running ones.
+  // Resolves true if everything finished, false if the rest had to be cancelled.
+  async drain(timeoutMs: number): Promise<boolean> {
+    this.draining = true;
+    if (this.inFlight === 0) return true;
+
+    let timer: NodeJS.Timeout | undefined;
+    const finished = await Promise.race([
+      new Promise<boolean>(resolve => this.idleWaiters.push(() => resolve(true))),
+      new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (!finished) {
+      this.controller.abort(new ShuttingDownError('Search cancelled by server shutdown'));
+    }
+    return finished;
+  }
+
+  // Resolves once no search is running, or after timeoutMs
+  waitForIdle(timeoutMs: number): Promise<void> {
+    if (this.inFlight === 0) return Promise.resolve();
+
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, timeoutMs);
+      this.idleWaiters.push(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+}
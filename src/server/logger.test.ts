@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Logger, redact } from './logger.js';
+import { TestServer, startTestServer } from './test-support.js';
+
+// A search with every form field filled in, for a fictional voter the fake registry knows
+const QUERY = {
+  first_name: 'ԱՐՄԵՆ',
+  last_name: 'ՊԵՏՐՈՍՅԱՆ',
+  middle_name: 'ԱՎԹԱՆԴԻԼԻ',
+  birth_date: '11/03/1990',
+  region: 'ԵՐԵՎԱՆ',
+  community: 'ԱՐԱԲԿԻՐ',
+  street: 'ԿՈՄԻՏԱՍ',
+  building: '7',
+  apartment: '10',
+  district: '9',
+};
+
+// What must never appear in a log line: the query, and the row the registry returns for it
+const PERSONAL_VALUES = [
+  'ԱՐՄԵՆ',
+  'ՊԵՏՐՈՍՅԱՆ',
+  'ԱՎԹԱՆԴԻԼԻ',
+  '11/03/1990',
+  '1990-03-11',
+  'ԱՐԱԲԿԻՐ',
+  'ԿՈՄԻՏԱՍ',
+  '9/35',
+];
+
+describe('redact', () => {
+  it('hashes personal fields at any depth and keeps the rest', () => {
+    const redacted = redact({
+      path: '/api/search',
+      params: { firstName: 'ԱՐՄԵՆ', page: 2 },
+      rows: [{ address: 'ԿՈՄԻՏԱՍ Փ. 7 10' }],
+    }) as { path: string; params: Record<string, unknown>; rows: Array<{ address: string }> };
+
+    expect(redacted.path).toBe('/api/search');
+    expect(redacted.params.page).toBe(2);
+    expect(redacted.params.firstName).toMatch(/^redacted:[0-9a-f]{12}$/);
+    expect(redacted.rows[0].address).toMatch(/^redacted:/);
+  });
+
+  it('gives the same value the same hash, so lines can be correlated', () => {
+    const hash = (fields: object) => Object.values(redact(fields) as object)[0];
+
+    expect(hash({ name: 'ԱՐՄԵՆ' })).toBe(hash({ firstName: 'ԱՐՄԵՆ' }));
+    expect(hash({ name: 'ԱՐՄԵՆ' })).not.toBe(hash({ name: 'ԱՆԻ' }));
+  });
+});
+
+describe('search logging', () => {
+  let server: TestServer;
+  const lines: string[] = [];
+
+  afterEach(async () => {
+    await server?.close();
+    lines.length = 0;
+  });
+
+  const start = async () => {
+    const logger = new Logger({ level: 'debug', sink: line => lines.push(line) });
+    server = await startTestServer({ app: { logger } });
+  };
+
+  const expectNoPersonalValues = () => {
+    expect(lines.length).toBeGreaterThan(0);
+    for (const line of lines) {
+      for (const value of PERSONAL_VALUES) {
+        expect(line, `log line contains ${value}`).not.toContain(value);
+      }
+    }
+  };
+
+  it('keeps search-form values out of the logs of a successful search', async () => {
+    await start();
+
+    const response = await server.post('/api/search', QUERY);
+
+    expect(response.status).toBe(200);
+    expectNoPersonalValues();
+  });
+
+  it('keeps them out of the logs of failed and rejected searches', async () => {
+    await start();
+
+    server.fake.behavior.searchStatus = 500;
+    expect((await server.post('/api/search', QUERY)).status).toBe(503);
+    expect((await server.post('/api/search', { ...QUERY, first_name: 'Ա' })).status).toBe(400);
+    expect((await server.post('/api/search', { ...QUERY, nickname: 'ԱՐՄԵՆ' })).status).toBe(400);
+
+    expectNoPersonalValues();
+  });
+
+  it('keeps them out of the logs of a malformed body', async () => {
+    await start();
+
+    const response = await fetch(`${server.url}/api/search`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: `{"first_name": "ԱՐՄԵՆ", "last_name": "ՊԵՏՐՈՍՅԱՆ"`,
+    });
+
+    expect(response.status).toBe(400);
+    expectNoPersonalValues();
+  });
+
+  it('logs which fields were filled in, not their values', async () => {
+    await start();
+
+    await server.post('/api/search', QUERY);
+
+    const started = lines
+      .map(line => JSON.parse(line))
+      .find(entry => entry.msg === 'Registry search started');
+    expect(started.fields).toEqual(expect.arrayContaining(['firstName', 'building', 'apartment']));
+  });
+});
@@ -0,0 +1,131 @@
+// Structured JSON logging with personal-data redaction.
+// Every line is one JSON object; search-form values and client IPs never reach the output
+// in clear text — they are replaced by a short salted hash so repeated values can still be
+// correlated within one process lifetime.
+
+import { createHash, randomBytes } from 'crypto';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export type LogSink = (line: string) => void;
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  sink?: LogSink;
+}
+
+// Field names (snake_case and camelCase) whose values are personal data
+const PERSONAL_FIELDS = new Set([
+  'first_name',
+  'firstName',
+  'last_name',
+  'lastName',
+  'middle_name',
+  'middleName',
+  'name',
+  'birth_date',
+  'birthDate',
+  'street',
+  'building',
+  'apartment',
+  'address',
+  'community',
+  'district',
+  'ip',
+  'cookies',
+  'token',
+]);
+
+// Per-process salt: hashes are stable within a run, useless for dictionary lookups across runs
+const SALT = randomBytes(16);
+
+function hashValue(value: unknown): string {
+  const digest = createHash('sha256').update(SALT).update(String(value)).digest('hex');
+  return `redacted:${digest.slice(0, 12)}`;
+}
+
+// Replace personal fields with hashes, recursing into nested objects and arrays
+export function redact(value: unknown, key?: string): unknown {
+  if (value === undefined || value === null || value === '') return value;
+
+  if (key !== undefined && PERSONAL_FIELDS.has(key)) {
+    return hashValue(typeof value === 'object' ? JSON.stringify(value) : value);
+  }
+
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item));
+  }
+
+  if (typeof value === 'object') {
+    const result: LogFields = {};
+    for (const [field, fieldValue] of Object.entries(value)) {
+      result[field] = redact(fieldValue, field);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+const defaultSink: LogSink = line => {
+  process.stdout.write(line + '\n');
+};
+
+export class Logger {
+  private readonly threshold: number;
+  private readonly sink: LogSink;
+  private readonly bindings: LogFields;
+
+  constructor(options: LoggerOptions = {}, bindings: LogFields = {}) {
+    this.threshold = LOG_LEVELS.indexOf(options.level || 'info');
+    this.sink = options.sink || defaultSink;
+    this.bindings = bindings;
+  }
+
+  // Logger that adds the given fields (e.g. requestId) to every line
+  child(bindings: LogFields): Logger {
+    const options = { level: LOG_LEVELS[this.threshold], sink: this.sink };
+    return new Logger(options, { ...this.bindings, ...bindings });
+  }
+
+  isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    return LOG_LEVELS.indexOf(level) >= this.threshold;
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write('error', msg, fields);
+  }
+
+  private write(level: Exclude<LogLevel, 'silent'>, msg: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) return;
+
+    const entry = redact({ ...this.bindings, ...fields }) as LogFields;
+    this.sink(JSON.stringify({ time: new Date().toISOString(), level, msg, ...entry }));
+  }
+}
+
+// Logger for code paths that have none injected (e.g. library use without an app)
+export const silentLogger = new Logger({ level: 'silent' });
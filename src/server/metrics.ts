@@ -0,0 +1,84 @@
+// Aggregate, PII-free usage metrics.
+// Only totals are kept: no names, birth dates, addresses or IPs ever reach this module.
+
+// Upper bounds (ms) of the latency histogram buckets; the last bucket is open-ended
+const LATENCY_BUCKETS_MS = [1000, 2500, 5000, 10000, 30000, 60000];
+
+// Searches outside the known regions are counted together, so free-form input can't leak
+// into the counters
+const OTHER_REGION = 'OTHER';
+
+export interface SearchOutcome {
+  region: string;
+  success: boolean;
+  durationMs: number;
+}
+
+export interface MetricsSnapshot {
+  since: string;
+  searches: {
+    total: number;
+    success: number;
+    error: number;
+    successRate: number | null;
+    byRegion: Record<string, number>;
+  };
+  latency: {
+    count: number;
+    averageMs: number | null;
+    buckets: Array<{ le: number | null; count: number }>;
+  };
+}
+
+export class UsageMetrics {
+  private readonly since = new Date();
+  private readonly knownRegions: Set<string>;
+  private readonly searchesByRegion = new Map<string, number>();
+  private successCount = 0;
+  private errorCount = 0;
+  private latencySumMs = 0;
+  private readonly latencyBuckets = new Array<number>(LATENCY_BUCKETS_MS.length + 1).fill(0);
+
+  // Region names as spelled in the catalog (data/regions.json)
+  constructor(knownRegions: string[] = []) {
+    this.knownRegions = new Set(knownRegions);
+  }
+
+  recordSearch(outcome: SearchOutcome): void {
+    const region = this.knownRegions.has(outcome.region) ? outcome.region : OTHER_REGION;
+    this.searchesByRegion.set(region, (this.searchesByRegion.get(region) || 0) + 1);
+
+    if (outcome.success) {
+      this.successCount++;
+    } else {
+      this.errorCount++;
+    }
+
+    this.latencySumMs += outcome.durationMs;
+    const bucket = LATENCY_BUCKETS_MS.findIndex(le => outcome.durationMs <= le);
+    this.latencyBuckets[bucket === -1 ? LATENCY_BUCKETS_MS.length : bucket]++;
+  }
+
+  snapshot(): MetricsSnapshot {
+    const total = this.successCount + this.errorCount;
+
+    return {
+      since: this.since.toISOString(),
+      searches: {
+        total,
+        success: this.successCount,
+        error: this.errorCount,
+        successRate: total > 0 ? this.successCount / total : null,
+        byRegion: Object.fromEntries(this.searchesByRegion),
+      },
+      latency: {
+        count: total,
+        averageMs: total > 0 ? Math.round(this.latencySumMs / total) : null,
+        buckets: this.latencyBuckets.map((count, i) => ({
+          le: i < LATENCY_BUCKETS_MS.length ? LATENCY_BUCKETS_MS[i] : null,
+          count,
+        })),
+      },
+    };
+  }
+}
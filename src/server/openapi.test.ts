@@ -0,0 +1,257 @@
+import Ajv2020 from 'ajv/dist/2020.js';
+import addFormats from 'ajv-formats';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { ApiResponse, TestServer, TestServerOptions, startTestServer } from './test-support.js';
+import { Lifecycle } from './lifecycle.js';
+import { RegionCatalog, loadRegionCatalog } from './regions.js';
+import { buildOpenApiDocument } from './openapi.js';
+
+// Contract tests: real responses of every route, through the fake registry, validated
+// with ajv against the schemas of /api/openapi.json for their path, method and status
+
+interface DocumentedResponse {
+  content: Record<string, { schema: object }>;
+}
+
+interface OpenApiDocument {
+  paths: Record<string, Record<string, { responses: Record<string, DocumentedResponse> }>>;
+  components: {
+    schemas: Record<string, object>;
+    responses: Record<string, DocumentedResponse>;
+  };
+}
+
+const DOCUMENT_ID = 'https://aixreg.test/openapi.json';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), '../../fixtures/registry');
+const FIXTURE_PRECINCTS = path.join(FIXTURES, 'precincts.json');
+const EMPTY_PRECINCTS = path.join(FIXTURES, 'precincts-empty.json');
+
+const ARMEN = { first_name: 'ԱՐՄԵՆ', last_name: 'ՊԵՏՐՈՍՅԱՆ' };
+
+let ajv: InstanceType<typeof Ajv2020>;
+let spec: OpenApiDocument;
+
+beforeAll(() => {
+  spec = buildOpenApiDocument() as unknown as OpenApiDocument;
+  ajv = new Ajv2020({ strict: true, allErrors: true });
+  // ajv-formats is CommonJS; its function is the default export of the module object
+  addFormats.default(ajv);
+  // The OpenAPI fields around the schemas are not JSON Schema keywords
+  ajv.addKeyword('openapi').addKeyword('info').addKeyword('paths').addKeyword('components');
+  ajv.addSchema({ ...spec, $id: DOCUMENT_ID });
+});
+
+// Schemas are referenced as "#/components/schemas/…" within the document
+function resolve(schema: object): object {
+  const { $ref } = schema as { $ref?: string };
+  return $ref ? { $ref: DOCUMENT_ID + $ref } : schema;
+}
+
+function expectValid(schema: object, body: unknown): void {
+  const validate = ajv.compile(resolve(schema));
+  validate(body);
+  expect(validate.errors ?? [], JSON.stringify(body)).toEqual([]);
+}
+
+// The documented schema of a response; fails when its status is not documented
+function expectDocumented(method: string, route: string, response: ApiResponse): void {
+  const operation = spec.paths[route]?.[method];
+  expect(operation, `${method} ${route} is documented`).toBeDefined();
+
+  const documented = operation.responses[String(response.status)];
+  expect(documented, `${method} ${route} documents ${response.status}`).toBeDefined();
+
+  expectValid(documented.content['application/json'].schema, response.body);
+}
+
+describe('/api/openapi.json', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  it('serves the document the tests validate against', async () => {
+    server = await startTestServer();
+
+    const response = await server.get('/api/openapi.json');
+
+    expect(response.body).toEqual(JSON.parse(JSON.stringify(buildOpenApiDocument())));
+    expectDocumented('get', '/api/openapi.json', response);
+  });
+});
+
+describe('response contracts', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  const start = async (options: TestServerOptions = {}) => {
+    server = await startTestServer(options);
+  };
+
+  const search = async (body: unknown) => {
+    const response = await server.post('/api/search', body);
+    expectDocumented('post', '/api/search', response);
+    return response.body as { code?: string };
+  };
+
+  describe('POST /api/search', () => {
+    it('accepts documented requests and describes the results', async () => {
+      await start();
+      const requests = [
+        ARMEN,
+        { ...ARMEN, birth_date: '11/03/1990', region: 'ԵՐԵՎԱՆ', community: 'ԱՐԱԲԿԻՐ' },
+        { ...ARMEN, page: 2 },
+        { first_name: 'ՆԻՄԱ', last_name: 'ՉԿԱ' },
+      ];
+
+      for (const request of requests) {
+        expectValid(spec.components.schemas.SearchRequest, request);
+        expect(await search(request)).not.toHaveProperty('code');
+      }
+    });
+
+    it('rejects what the request schema rejects', async () => {
+      await start();
+      const invalid = [
+        { ...ARMEN, nickname: 'x' },
+        { first_name: 'ԱՐՄԵՆ' },
+        { ...ARMEN, page: 0 },
+        { ...ARMEN, first_name: 42 },
+      ];
+
+      for (const request of invalid) {
+        expect(ajv.validate(resolve(spec.components.schemas.SearchRequest), request)).toBe(false);
+        expect((await search(request)).code).toBe('VALIDATION');
+      }
+    });
+
+    it('describes a malformed JSON body', async () => {
+      await start();
+
+      const response = await fetch(`${server.url}/api/search`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"first_name":',
+      });
+      const body = await response.json();
+
+      expectDocumented('post', '/api/search', {
+        status: response.status,
+        headers: response.headers,
+        body,
+      });
+      expect(body.code).toBe('VALIDATION');
+    });
+
+    it('describes UPSTREAM_UNAVAILABLE and PARSE_FAILED', async () => {
+      await start();
+
+      server.fake.behavior.searchStatus = 500;
+      expect((await search(ARMEN)).code).toBe('UPSTREAM_UNAVAILABLE');
+
+      server.fake.behavior.searchStatus = 200;
+      server.fake.behavior.searchPage = '<html><body>Maintenance</body></html>';
+      expect((await search(ARMEN)).code).toBe('PARSE_FAILED');
+    });
+
+    it('describes TOKEN_UNAVAILABLE', async () => {
+      await start({ env: { MAX_RETRIES: '1' } });
+      server.fake.behavior.omitToken = true;
+
+      expect((await search(ARMEN)).code).toBe('TOKEN_UNAVAILABLE');
+    });
+
+    it('describes TIMEOUT', async () => {
+      await start({ env: { SEARCH_DEADLINE_MS: '1000' } });
+      server.fake.behavior.responseDelayMs = 1500;
+
+      expect((await search(ARMEN)).code).toBe('TIMEOUT');
+    });
+
+    it('describes RATE_LIMITED', async () => {
+      await start({ env: { RATE_LIMIT_MAX: '1' } });
+
+      await search(ARMEN);
+      expect((await search(ARMEN)).code).toBe('RATE_LIMITED');
+    });
+
+    it('describes SHUTTING_DOWN', async () => {
+      const lifecycle = new Lifecycle();
+      await start({ app: { lifecycle } });
+      await lifecycle.drain(0);
+
+      expect((await search(ARMEN)).code).toBe('SHUTTING_DOWN');
+    });
+
+    it('describes INTERNAL', async () => {
+      class BrokenCatalog extends RegionCatalog {
+        check(): never {
+          throw new Error('Catalog broken');
+        }
+      }
+      await start({ app: { regions: new BrokenCatalog(loadRegionCatalog().list()) } });
+
+      expect((await search(ARMEN)).code).toBe('INTERNAL');
+    });
+  });
+
+  describe('GET routes', () => {
+    it('describes the regions, health and metrics', async () => {
+      await start();
+      await search(ARMEN);
+
+      for (const route of [
+        '/api/regions',
+        '/api/health',
+        '/api/health/live',
+        '/api/health/ready',
+        '/api/metrics',
+      ]) {
+        expectDocumented('get', route, await server.get(route));
+      }
+    });
+
+    it('describes an instance that is not ready', async () => {
+      const lifecycle = new Lifecycle();
+      await start({ app: { lifecycle } });
+      await lifecycle.drain(0);
+
+      const response = await server.get('/api/health/ready');
+
+      expect(response.status).toBe(503);
+      expectDocumented('get', '/api/health/ready', response);
+    });
+
+    it('describes every precinct lookup outcome', async () => {
+      await start({ env: { PRECINCTS_FILE: FIXTURE_PRECINCTS } });
+      const route = '/api/precincts/{id}';
+
+      expectDocumented('get', route, await server.get('/api/precincts/9-35'));
+      expectDocumented('get', route, await server.get('/api/precincts/9-99'));
+      expectDocumented('get', route, await server.get('/api/precincts/nine'));
+
+      await server.close();
+      await start({ env: { PRECINCTS_FILE: EMPTY_PRECINCTS } });
+      const empty = await server.get('/api/precincts/9-35');
+      expect(empty.status).toBe(503);
+      expectDocumented('get', route, empty);
+    });
+  });
+
+  it('describes the 404 of an unknown path or method', async () => {
+    await start();
+    const notFound = spec.components.responses.NotFound;
+
+    for (const response of [await server.get('/api/nothing'), await server.get('/api/search')]) {
+      expect(response.status).toBe(404);
+      expectValid(notFound.content['application/json'].schema, response.body);
+    }
+  });
+});
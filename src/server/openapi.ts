@@ -0,0 +1,441 @@
+// OpenAPI 3.1 description of the HTTP API, served at /api/openapi.json. Limits, codes and
+// languages come from the shared schema, and each object schema is typed against the
+// interface it describes: a field added to a response type but not to this document (or
+// the other way round) fails `npm run type-check`.
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  ERROR_CODES,
+  ErrorCode,
+  FieldError,
+  MAX_PAGE,
+  METRICS_CONSENT_HEADER,
+  SEARCH_FIELDS,
+  SearchField,
+  SearchRequest,
+  SearchResponse,
+  SearchResult,
+} from '../shared/schema.js';
+import { PollingStation, PrecinctResponse } from '../shared/precinct.js';
+import { Region, RegionsResponse } from '../shared/regions.js';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '../shared/i18n.js';
+import { ERROR_STATUS } from './errors.js';
+import { MetricsSnapshot } from './metrics.js';
+import { CircuitSnapshot } from './registry/circuit-breaker.js';
+import { TokenStatus } from './registry/token-manager.js';
+import { UpstreamLimitStats } from './throttle.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const PACKAGE_JSON = path.join(__dirname, '../../package.json');
+
+// Bodies of the routes that have no shared type, because only the server produces them
+export interface ReadinessChecks {
+  accepting: boolean;
+  circuit: boolean;
+  token: boolean;
+}
+
+export interface HealthResponse {
+  status: 'ok' | 'degraded';
+  timestamp: string;
+  service: string;
+  proxyConfigured: boolean;
+  checks: ReadinessChecks;
+  activeSearches: number;
+  inFlightQueries: number;
+  upstream: UpstreamLimitStats;
+  circuit: CircuitSnapshot;
+  token: TokenStatus;
+}
+
+export interface LivenessResponse {
+  status: 'ok';
+}
+
+export interface ReadinessResponse {
+  status: 'ready' | 'not_ready';
+  checks: ReadinessChecks;
+}
+
+// Body of the catch-all 404 for any path or method not listed in the document
+export interface NotFoundResponse {
+  success: false;
+  error: string;
+}
+
+type Schema = Record<string, unknown>;
+
+// One schema per field of T, no more and no fewer
+type Properties<T> = { [K in keyof T]-?: Schema };
+
+function object<T>(properties: Properties<T>, required: Array<keyof T & string> = []): Schema {
+  return {
+    type: 'object',
+    properties,
+    ...(required.length ? { required } : {}),
+    additionalProperties: false,
+  };
+}
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (schema: Schema) => ({ 'application/json': { schema } });
+
+const INTEGER: Schema = { type: 'integer', minimum: 0 };
+
+function searchFieldSchema(field: SearchField): Schema {
+  const rule = SEARCH_FIELDS[field];
+  return {
+    type: 'string',
+    ...(rule.minLength ? { minLength: rule.minLength } : {}),
+    maxLength: rule.maxLength,
+    ...(rule.date
+      ? {
+          description:
+            'DD/MM/YYYY, DD.MM.YYYY, DD-MM-YYYY or YYYY-MM-DD, without a time; ' +
+            'must be a real date, not after today',
+        }
+      : {}),
+  };
+}
+
+const searchFields = Object.fromEntries(
+  (Object.keys(SEARCH_FIELDS) as SearchField[]).map(field => [field, searchFieldSchema(field)])
+) as Record<SearchField, Schema>;
+
+const requiredSearchFields = (Object.keys(SEARCH_FIELDS) as SearchField[]).filter(
+  field => SEARCH_FIELDS[field].required
+);
+
+const schemas: Record<string, Schema> = {
+  ErrorCode: { type: 'string', enum: [...ERROR_CODES] },
+  SearchRequest: {
+    ...object<SearchRequest>(
+      {
+        ...searchFields,
+        page: { type: 'integer', minimum: 1, maximum: MAX_PAGE, default: 1 },
+      },
+      requiredSearchFields
+    ),
+    description:
+      'Lengths are checked after trimming and transliterating Latin or Cyrillic input to Armenian',
+  },
+  SearchResult: object<SearchResult>(
+    {
+      name: { type: 'string' },
+      birth_date: { type: 'string', description: 'DD/MM/YYYY; empty when masked' },
+      region_community: { type: 'string' },
+      address: { type: 'string' },
+      district: { type: 'string', description: 'Precinct, e.g. "9/35"' },
+      masked: {
+        type: 'boolean',
+        description: 'Birth date and address numbers withheld by the privacy policy',
+      },
+    },
+    ['name', 'birth_date', 'region_community', 'address', 'district']
+  ),
+  FieldError: object<FieldError>({ field: { type: 'string' }, message: { type: 'string' } }, [
+    'field',
+    'message',
+  ]),
+  SearchResponse: object<SearchResponse>(
+    {
+      success: { type: 'boolean' },
+      code: ref('ErrorCode'),
+      count: INTEGER,
+      results: { type: 'array', items: ref('SearchResult') },
+      page: { type: 'integer', minimum: 1, maximum: MAX_PAGE },
+      hasMore: { type: 'boolean' },
+      error: { type: 'string', description: 'In the language negotiated from Accept-Language' },
+      errors: { type: 'array', items: ref('FieldError') },
+      details: { type: 'string', description: 'Internal error message, development only' },
+    },
+    ['success']
+  ),
+  PollingStation: object<PollingStation>(
+    {
+      id: { type: 'string', description: 'Canonical precinct id, e.g. "9/35"' },
+      address: { type: 'string' },
+      place: { type: 'string' },
+      location: object<NonNullable<PollingStation['location']>>(
+        { lat: { type: 'number' }, lng: { type: 'number' } },
+        ['lat', 'lng']
+      ),
+      hours: { type: 'string' },
+    },
+    ['id', 'address', 'hours']
+  ),
+  PrecinctResponse: object<PrecinctResponse>(
+    {
+      success: { type: 'boolean' },
+      precinct: ref('PollingStation'),
+      error: { type: 'string' },
+    },
+    ['success']
+  ),
+  Region: object<Region>(
+    { name: { type: 'string' }, communities: { type: 'array', items: { type: 'string' } } },
+    ['name', 'communities']
+  ),
+  RegionsResponse: object<RegionsResponse>(
+    {
+      success: { type: 'boolean' },
+      regions: { type: 'array', items: ref('Region') },
+      error: { type: 'string' },
+    },
+    ['success']
+  ),
+  ReadinessChecks: object<ReadinessChecks>(
+    { accepting: { type: 'boolean' }, circuit: { type: 'boolean' }, token: { type: 'boolean' } },
+    ['accepting', 'circuit', 'token']
+  ),
+  HealthResponse: object<HealthResponse>(
+    {
+      status: { type: 'string', enum: ['ok', 'degraded'] },
+      timestamp: { type: 'string', format: 'date-time' },
+      service: { type: 'string' },
+      proxyConfigured: { type: 'boolean' },
+      checks: ref('ReadinessChecks'),
+      activeSearches: INTEGER,
+      inFlightQueries: INTEGER,
+      upstream: object<UpstreamLimitStats>(
+        { active: INTEGER, queued: INTEGER, maxConcurrent: INTEGER, maxQueue: INTEGER },
+        ['active', 'queued', 'maxConcurrent', 'maxQueue']
+      ),
+      circuit: object<CircuitSnapshot>(
+        {
+          state: { type: 'string', enum: ['closed', 'open', 'half_open'] },
+          consecutiveFailures: INTEGER,
+          retryAfter: INTEGER,
+        },
+        ['state', 'consecutiveFailures']
+      ),
+      token: object<TokenStatus>(
+        {
+          available: { type: 'boolean' },
+          cached: { type: 'boolean' },
+          ageMs: INTEGER,
+          lastFailure: ref('ErrorCode'),
+        },
+        ['available', 'cached']
+      ),
+    },
+    [
+      'status',
+      'timestamp',
+      'service',
+      'proxyConfigured',
+      'checks',
+      'activeSearches',
+      'inFlightQueries',
+      'upstream',
+      'circuit',
+      'token',
+    ]
+  ),
+  LivenessResponse: object<LivenessResponse>({ status: { type: 'string', const: 'ok' } }, [
+    'status',
+  ]),
+  ReadinessResponse: object<ReadinessResponse>(
+    {
+      status: { type: 'string', enum: ['ready', 'not_ready'] },
+      checks: ref('ReadinessChecks'),
+    },
+    ['status', 'checks']
+  ),
+  NotFoundResponse: object<NotFoundResponse>(
+    {
+      success: { type: 'boolean', const: false },
+      error: {
+        type: 'string',
+        description: 'Localized from Accept-Language under /api/, in Armenian elsewhere',
+      },
+    },
+    ['success', 'error']
+  ),
+  MetricsSnapshot: object<MetricsSnapshot>(
+    {
+      since: { type: 'string', format: 'date-time' },
+      searches: object<MetricsSnapshot['searches']>(
+        {
+          total: INTEGER,
+          success: INTEGER,
+          error: INTEGER,
+          successRate: { type: ['number', 'null'], minimum: 0, maximum: 1 },
+          byRegion: { type: 'object', additionalProperties: INTEGER },
+        },
+        ['total', 'success', 'error', 'successRate', 'byRegion']
+      ),
+      latency: object<MetricsSnapshot['latency']>(
+        {
+          count: INTEGER,
+          averageMs: { type: ['number', 'null'] },
+          buckets: {
+            type: 'array',
+            items: object<MetricsSnapshot['latency']['buckets'][number]>(
+              { le: { type: ['number', 'null'] }, count: INTEGER },
+              ['le', 'count']
+            ),
+          },
+        },
+        ['count', 'averageMs', 'buckets']
+      ),
+    },
+    ['since', 'searches', 'latency']
+  ),
+};
+
+const RETRY_AFTER = {
+  'Retry-After': { description: 'Seconds to wait before retrying', schema: INTEGER },
+};
+
+const ACCEPT_LANGUAGE = {
+  name: 'Accept-Language',
+  in: 'header',
+  description: `Language of error messages: ${LANGUAGES.join(', ')} (default ${DEFAULT_LANGUAGE})`,
+  schema: { type: 'string' },
+};
+
+// One response per error status, listing the codes that use it
+function searchErrorResponses(): Record<string, Schema> {
+  const byStatus = new Map<number, ErrorCode[]>();
+  for (const code of ERROR_CODES) {
+    byStatus.set(ERROR_STATUS[code], [...(byStatus.get(ERROR_STATUS[code]) || []), code]);
+  }
+
+  return Object.fromEntries(
+    [...byStatus].map(([status, codes]) => [
+      String(status),
+      {
+        description: codes.join(', '),
+        ...(status === 429 || status === 503 ? { headers: RETRY_AFTER } : {}),
+        content: json(ref('SearchResponse')),
+      },
+    ])
+  );
+}
+
+function apiVersion(): string {
+  try {
+    return JSON.parse(fs.readFileSync(PACKAGE_JSON, 'utf8')).version;
+  } catch {
+    return '0.0.0';
+  }
+}
+
+export function buildOpenApiDocument(): Schema {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Armenian Election Registry Search API',
+      version: apiVersion(),
+    },
+    paths: {
+      '/api/search': {
+        post: {
+          summary: 'Search the voter registry, one result page at a time',
+          parameters: [
+            ACCEPT_LANGUAGE,
+            {
+              name: METRICS_CONSENT_HEADER,
+              in: 'header',
+              description: 'Count this search in the anonymous usage metrics',
+              schema: { type: 'string', enum: ['granted'] },
+            },
+          ],
+          requestBody: { required: true, content: json(ref('SearchRequest')) },
+          responses: {
+            '200': {
+              description: 'Results of the requested page',
+              content: json(ref('SearchResponse')),
+            },
+            ...searchErrorResponses(),
+          },
+        },
+      },
+      '/api/regions': {
+        get: {
+          summary: 'Marzes and their communities',
+          responses: {
+            '200': { description: 'Region catalog', content: json(ref('RegionsResponse')) },
+          },
+        },
+      },
+      '/api/precincts/{id}': {
+        get: {
+          summary: 'Polling station of a precinct',
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              description: 'Precinct as in the district column, "9-35" or "9%2F35"',
+              schema: { type: 'string' },
+            },
+            ACCEPT_LANGUAGE,
+          ],
+          responses: {
+            '200': { description: 'Polling station', content: json(ref('PrecinctResponse')) },
+            '400': { description: 'Not a precinct id', content: json(ref('PrecinctResponse')) },
+            '404': { description: 'Not in the dataset', content: json(ref('PrecinctResponse')) },
+            '503': {
+              description: 'The dataset is empty, so no precinct can be looked up',
+              content: json(ref('PrecinctResponse')),
+            },
+          },
+        },
+      },
+      '/api/health': {
+        get: {
+          summary: 'Service state for operators',
+          responses: { '200': { description: 'Health', content: json(ref('HealthResponse')) } },
+        },
+      },
+      '/api/health/live': {
+        get: {
+          summary: 'Liveness probe',
+          responses: {
+            '200': { description: 'Process is up', content: json(ref('LivenessResponse')) },
+          },
+        },
+      },
+      '/api/health/ready': {
+        get: {
+          summary: 'Readiness probe',
+          responses: {
+            '200': { description: 'Ready for searches', content: json(ref('ReadinessResponse')) },
+            '503': { description: 'Not ready', content: json(ref('ReadinessResponse')) },
+          },
+        },
+      },
+      '/api/metrics': {
+        get: {
+          summary: 'Anonymous usage totals',
+          responses: { '200': { description: 'Metrics', content: json(ref('MetricsSnapshot')) } },
+        },
+      },
+      '/api/openapi.json': {
+        get: {
+          summary: 'This document',
+          responses: {
+            '200': { description: 'OpenAPI document', content: json({ type: 'object' }) },
+          },
+        },
+      },
+    },
+    components: {
+      schemas,
+      responses: {
+        NotFound: {
+          description:
+            'Any path or method not listed under paths, under /api/ or not, answers 404 with this body',
+          content: json(ref('NotFoundResponse')),
+        },
+      },
+    },
+  };
+}
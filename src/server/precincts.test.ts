@@ -0,0 +1,137 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, describe, expect, it } from 'vitest';
+import { PrecinctResponse } from '../shared/precinct.js';
+import { ConfigError, DEFAULT_PRECINCTS_FILE } from './config.js';
+import { loadPrecinctDirectory, parsePrecinctDataset } from './precincts.js';
+import { TestServer, startTestServer } from './test-support.js';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), '../../fixtures/registry');
+const FIXTURE_PRECINCTS = path.join(FIXTURES, 'precincts.json');
+const EMPTY_PRECINCTS = path.join(FIXTURES, 'precincts-empty.json');
+
+describe('parsePrecinctDataset', () => {
+  it('fills in the default hours and canonical ids', () => {
+    const stations = parsePrecinctDataset(
+      { defaultHours: '08:00-20:00', precincts: [{ id: '09-035', address: ' ԿՈՄԻՏԱՍ Փ. 12 ' }] },
+      'test.json'
+    );
+
+    expect(stations).toEqual([
+      {
+        id: '9/35',
+        address: 'ԿՈՄԻՏԱՍ Փ. 12',
+        place: undefined,
+        location: undefined,
+        hours: '08:00-20:00',
+      },
+    ]);
+  });
+
+  it('rejects a file without a precincts array', () => {
+    expect(() => parsePrecinctDataset({ stations: [] }, 'test.json')).toThrow(
+      'test.json: expected an object with a "precincts" array'
+    );
+  });
+
+  it('reports every bad entry at once', () => {
+    let problems: string[] = [];
+    try {
+      parsePrecinctDataset(
+        {
+          precincts: [
+            { id: '9', address: 'A' },
+            { id: '9/35', address: '' },
+            { id: '9/36', address: 'B', location: { lat: 91, lng: 44 }, hours: '08:00-20:00' },
+            { id: '9/37', address: 'C' },
+          ],
+        },
+        'test.json'
+      );
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      problems = (error as ConfigError).problems;
+    }
+
+    expect(problems).toEqual([
+      expect.stringContaining('precincts[0].id'),
+      expect.stringContaining('precincts[1].address'),
+      expect.stringContaining('precincts[2].location'),
+      expect.stringContaining('precincts[3].hours'),
+    ]);
+  });
+});
+
+describe('loadPrecinctDirectory', () => {
+  it('loads the shipped dataset without problems', () => {
+    expect(() => loadPrecinctDirectory(DEFAULT_PRECINCTS_FILE)).not.toThrow();
+  });
+
+  it('loads every station of a filled-in dataset', () => {
+    const directory = loadPrecinctDirectory(FIXTURE_PRECINCTS);
+
+    expect(directory.size).toBe(8);
+    expect(directory.get({ commission: 9, precinct: 35 })).toMatchObject({
+      address: 'ԿՈՄԻՏԱՍ Փ. 12',
+      location: { lat: 40.205, lng: 44.515 },
+    });
+  });
+
+  it('names the file when it cannot be read', () => {
+    expect(() => loadPrecinctDirectory(path.join(FIXTURES, 'missing.json'))).toThrow(
+      /PRECINCTS_FILE .*missing\.json could not be read/
+    );
+  });
+});
+
+describe('/api/precincts/:id', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  describe('with an empty dataset', () => {
+    it('says the dataset is missing instead of "not found"', async () => {
+      server = await startTestServer({ env: { PRECINCTS_FILE: EMPTY_PRECINCTS } });
+
+      const response = await server.get<PrecinctResponse>('/api/precincts/9-35', {
+        'Accept-Language': 'en',
+      });
+
+      expect(response.status).toBe(503);
+      expect(response.body).toEqual({
+        success: false,
+        error: 'Polling stations have not been published here yet',
+      });
+    });
+  });
+
+  describe('with a filled-in dataset', () => {
+    it('returns the station, whichever way the id is written', async () => {
+      server = await startTestServer({ env: { PRECINCTS_FILE: FIXTURE_PRECINCTS } });
+
+      for (const id of ['9-35', '9%2F35', '09-035']) {
+        const response = await server.get<PrecinctResponse>(`/api/precincts/${id}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.precinct).toMatchObject({ id: '9/35', hours: '08:00-20:00' });
+      }
+    });
+
+    it('answers 404 for a precinct it does not list', async () => {
+      server = await startTestServer({ env: { PRECINCTS_FILE: FIXTURE_PRECINCTS } });
+
+      const response = await server.get<PrecinctResponse>('/api/precincts/9-99');
+
+      expect(response.status).toBe(404);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('rejects malformed ids', async () => {
+      server = await startTestServer({ env: { PRECINCTS_FILE: FIXTURE_PRECINCTS } });
+
+      expect((await server.get('/api/precincts/nine')).status).toBe(400);
+    });
+  });
+});
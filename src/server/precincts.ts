@@ -0,0 +1,97 @@
+// Polling stations by precinct, loaded once at startup from a JSON dataset
+// (data/precincts.json by default). Updating the stations only means editing that file.
+
+import { DatasetReader, readDatasetFile } from './dataset.js';
+import {
+  PollingStation,
+  PrecinctId,
+  formatPrecinctId,
+  parsePrecinctId,
+} from '../shared/precinct.js';
+
+// Layout of the dataset file
+interface PrecinctDataset {
+  // Hours used for stations that do not list their own
+  defaultHours?: string;
+  precincts: Array<Partial<PollingStation>>;
+}
+
+export class PrecinctDirectory {
+  private readonly stations = new Map<string, PollingStation>();
+
+  constructor(stations: PollingStation[] = []) {
+    for (const station of stations) {
+      this.stations.set(station.id, station);
+    }
+  }
+
+  get(id: PrecinctId): PollingStation | undefined {
+    return this.stations.get(formatPrecinctId(id));
+  }
+
+  get size(): number {
+    return this.stations.size;
+  }
+}
+
+function isCoordinate(value: unknown, limit: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+}
+
+// Stations of a parsed dataset, with canonical ids and the default hours filled in
+export function parsePrecinctDataset(data: unknown, source: string): PollingStation[] {
+  const read = new DatasetReader(source);
+  const entries = read.entries<PollingStation>(data, 'precincts');
+  const { defaultHours } = data as PrecinctDataset;
+  const stations: PollingStation[] = [];
+  const seen = new Set<string>();
+
+  for (const { entry, where } of entries) {
+    const id = parsePrecinctId(typeof entry?.id === 'string' ? entry.id : undefined);
+
+    if (!entry || !id) {
+      read.problems.push(`${where}.id must look like "9/35", got ${JSON.stringify(entry?.id)}`);
+      continue;
+    }
+
+    const canonical = formatPrecinctId(id);
+    if (seen.has(canonical)) {
+      read.problems.push(`${where}: duplicate precinct ${canonical}`);
+      continue;
+    }
+    seen.add(canonical);
+
+    if (typeof entry.address !== 'string' || !entry.address.trim()) {
+      read.problems.push(`${where}.address is required`);
+      continue;
+    }
+
+    const { location } = entry;
+    if (location && !(isCoordinate(location.lat, 90) && isCoordinate(location.lng, 180))) {
+      read.problems.push(`${where}.location must be { "lat": number, "lng": number }`);
+      continue;
+    }
+
+    const hours = entry.hours || defaultHours;
+    if (!hours) {
+      read.problems.push(`${where}.hours is required when the dataset has no defaultHours`);
+      continue;
+    }
+
+    stations.push({
+      id: canonical,
+      address: entry.address.trim(),
+      place: entry.place,
+      location,
+      hours,
+    });
+  }
+
+  read.finish();
+  return stations;
+}
+
+// Read and validate the dataset file; throws ConfigError if it is missing or invalid
+export function loadPrecinctDirectory(file: string): PrecinctDirectory {
+  return new PrecinctDirectory(parsePrecinctDataset(readDatasetFile(file, 'PRECINCTS_FILE'), file));
+}
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { SearchResponse, SearchResult } from '../shared/schema.js';
+import {
+  DEFAULT_PRIVACY_POLICY,
+  applyPrivacyPolicy,
+  birthDateMatches,
+  checkMaskedFilters,
+  maskResult,
+} from './privacy.js';
+import { TestServer, startTestServer } from './test-support.js';
+
+const ROW: SearchResult = {
+  name: 'ՊԵՏՐՈՍՅԱՆ ԱՐՄԵՆ ԱՎԹԱՆԴԻԼԻ',
+  birth_date: '11/03/1990',
+  region_community: 'ԵՐԵՎԱՆ, ԱՐԱԲԿԻՐ',
+  address: 'ԿՈՄԻՏԱՍ Փ. 7 10',
+  district: '9/35',
+};
+
+const OFF = { requireBirthDateMatch: false };
+
+describe('birthDateMatches', () => {
+  it.each(['11/03/1990', '11.03.1990', '1990-03-11', '1990-3-11', '11-03-1990'])(
+    'matches %s',
+    query => {
+      expect(birthDateMatches(query, ROW.birth_date)).toBe(true);
+    }
+  );
+
+  it.each([undefined, '', '12/03/1990', '03/11/1990', '31/02/1990'])('does not match %s', query => {
+    expect(birthDateMatches(query, ROW.birth_date)).toBe(false);
+  });
+});
+
+describe('maskResult', () => {
+  it('drops the birth date and the address numbers', () => {
+    expect(maskResult(ROW)).toEqual({
+      ...ROW,
+      birth_date: '',
+      address: 'ԿՈՄԻՏԱՍ Փ. * *',
+      masked: true,
+    });
+  });
+});
+
+describe('applyPrivacyPolicy', () => {
+  const other = { ...ROW, birth_date: '04/06/1947', address: 'ԴԱՎԹԱՇԵՆ 4 Փ. 65 28' };
+
+  it('keeps only the rows born on the searched date in full', () => {
+    const results = applyPrivacyPolicy([ROW, other], '1990-03-11', DEFAULT_PRIVACY_POLICY);
+
+    expect(results).toEqual([ROW, maskResult(other)]);
+  });
+
+  it('masks every row of a search without a birth date', () => {
+    const results = applyPrivacyPolicy([ROW, other], undefined, DEFAULT_PRIVACY_POLICY);
+
+    expect(results.every(result => result.masked)).toBe(true);
+  });
+
+  it('returns full rows when turned off', () => {
+    expect(applyPrivacyPolicy([ROW, other], undefined, OFF)).toEqual([ROW, other]);
+  });
+});
+
+describe('checkMaskedFilters', () => {
+  const name = { first_name: 'ԱՐՄԵՆ', last_name: 'ՊԵՏՐՈՍՅԱՆ', street: 'ԿՈՄԻՏԱՍ' };
+
+  it('rejects building and apartment without a birth date', () => {
+    const errors = checkMaskedFilters(
+      { ...name, building: '7', apartment: '10' },
+      DEFAULT_PRIVACY_POLICY,
+      'en'
+    );
+
+    expect(errors).toEqual([
+      { field: 'building', message: 'Can only be searched together with a birth date' },
+      { field: 'apartment', message: 'Can only be searched together with a birth date' },
+    ]);
+  });
+
+  it('allows them with a birth date', () => {
+    const request = { ...name, building: '7', birth_date: '11/03/1990' };
+
+    expect(checkMaskedFilters(request, DEFAULT_PRIVACY_POLICY)).toEqual([]);
+  });
+
+  it('allows a search by name and street alone', () => {
+    expect(checkMaskedFilters(name, DEFAULT_PRIVACY_POLICY)).toEqual([]);
+  });
+
+  it('allows them when the policy is off', () => {
+    expect(checkMaskedFilters({ ...name, building: '7' }, OFF)).toEqual([]);
+  });
+});
+
+describe('/api/search privacy', () => {
+  const ARMEN = { first_name: 'ԱՐՄԵՆ', last_name: 'ՊԵՏՐՈՍՅԱՆ', community: 'ԱՐԱԲԿԻՐ' };
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  const search = (body: object) => server.post<SearchResponse>('/api/search', body);
+
+  it('shows only the row matching the birth date in full', async () => {
+    server = await startTestServer();
+
+    const masked = await search(ARMEN);
+    const matched = await search({ ...ARMEN, birth_date: '11/03/1990' });
+
+    expect(masked.body.results?.length).toBeGreaterThan(1);
+    expect(masked.body.results?.every(result => result.masked)).toBe(true);
+    expect(matched.body.results).toEqual([
+      expect.objectContaining({ birth_date: '11/03/1990', address: 'ԿՈՄԻՏԱՍ Փ. 7 10' }),
+    ]);
+  });
+
+  it('refuses to probe masked numbers by building without a birth date', async () => {
+    server = await startTestServer();
+
+    const response = await search({ ...ARMEN, street: 'ԿՈՄԻՏԱՍ', building: '7' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('VALIDATION');
+    expect(response.body.errors).toEqual([expect.objectContaining({ field: 'building' })]);
+    expect(server.fake.stats.searchRequests).toBe(0);
+  });
+
+  it('lets PRIVACY_MODE=false return full rows and accept every filter', async () => {
+    server = await startTestServer({ env: { PRIVACY_MODE: 'false' } });
+
+    const response = await search({ ...ARMEN, building: '7' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.results?.some(result => result.masked)).toBe(false);
+    expect(response.body.results?.[0].birth_date).not.toBe('');
+  });
+});
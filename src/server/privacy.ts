@@ -0,0 +1,70 @@
+// Privacy policy for search results. The service is for people checking their own
+// registration, so a name alone must not reveal when someone was born or where exactly
+// they live: full rows are only returned when the query's birth date matches the row.
+
+import { FieldError, SearchField, SearchRequest, SearchResult } from '../shared/schema.js';
+import { parseDate, sameDate } from '../shared/dates.js';
+import { DEFAULT_LANGUAGE, Language, translate } from '../shared/i18n.js';
+
+export interface PrivacyPolicy {
+  // Mask every row whose birth date does not match the query's birth_date
+  requireBirthDateMatch: boolean;
+}
+
+export const DEFAULT_PRIVACY_POLICY: PrivacyPolicy = {
+  requireBirthDateMatch: true,
+};
+
+// Replaces building, apartment and other numbers in a masked address
+const NUMBER_MASK = '*';
+
+// Search fields holding the numbers a masked row hides
+const MASKED_FILTERS: SearchField[] = ['building', 'apartment'];
+
+// Same calendar date, regardless of format, zero padding or separator
+export function birthDateMatches(query: string | undefined, birthDate: string): boolean {
+  const wanted = parseDate(query);
+  const actual = parseDate(birthDate);
+  return !!wanted && !!actual && sameDate(wanted, actual);
+}
+
+// Keep the name, region/community and district; drop the birth date and mask the numbers
+// of the address, leaving only the street
+export function maskResult(result: SearchResult): SearchResult {
+  return {
+    name: result.name,
+    birth_date: '',
+    region_community: result.region_community,
+    address: result.address.replace(/\d+/g, NUMBER_MASK),
+    district: result.district,
+    masked: true,
+  };
+}
+
+export function applyPrivacyPolicy(
+  results: SearchResult[],
+  queryBirthDate: string | undefined,
+  policy: PrivacyPolicy
+): SearchResult[] {
+  if (!policy.requireBirthDateMatch) return results;
+
+  return results.map(result =>
+    birthDateMatches(queryBirthDate, result.birth_date) ? result : maskResult(result)
+  );
+}
+
+// Filters that would give masked numbers away: without a birth date, trying building=1, 2,
+// 3... for a name and street tells which building a masked row is in. With a birth date
+// the registry only returns rows born that day, which are shown in full anyway.
+export function checkMaskedFilters(
+  request: SearchRequest,
+  policy: PrivacyPolicy,
+  language: Language = DEFAULT_LANGUAGE
+): FieldError[] {
+  if (!policy.requireBirthDateMatch || request.birth_date) return [];
+
+  return MASKED_FILTERS.filter(field => request[field]).map(field => ({
+    field,
+    message: translate(language, 'validation.needsBirthDate'),
+  }));
+}
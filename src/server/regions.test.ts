@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { SearchResponse } from '../shared/schema.js';
+import { loadRegionCatalog } from './regions.js';
+import { TestServer, startTestServer } from './test-support.js';
+
+describe('RegionCatalog.check', () => {
+  const regions = loadRegionCatalog();
+
+  it.each([
+    [undefined, undefined, { ok: true, region: 'ԵՐԵՎԱՆ' }],
+    ['արմավիր', 'վաղարշապատ', { ok: true, region: 'ԱՐՄԱՎԻՐ', community: 'ՎԱՂԱՐՇԱՊԱՏ' }],
+    ['ՏԱՎՈՒՇ', 'իջեւան', { ok: true, region: 'ՏԱՎՈՒՇ', community: 'ԻՋԵՎԱՆ' }],
+  ])('accepts %s / %s', (region, community, expected) => {
+    expect(regions.check(region, community)).toEqual(expected);
+  });
+
+  it('rejects a region that is not a marz', () => {
+    expect(regions.check('ՄՈՍԿՎԱ', undefined, 'en')).toEqual({
+      ok: false,
+      errors: [{ field: 'region', message: 'Unknown region' }],
+    });
+  });
+
+  it.each([
+    ['ԼՈՌԻ', 'ԱՐԱԲԿԻՐ'],
+    ['ԱՐՄԱՎԻՐ', 'ՄԵՑԱՄՈՐ'],
+    ['ՏԱՎՈՒՇ', 'ԱՉԱՋՈՒՐ'],
+  ])('rejects %s / %s, a pair the catalog does not list', (region, community) => {
+    expect(regions.check(region, community, 'en')).toEqual({
+      ok: false,
+      errors: [{ field: 'community', message: `Not a community of ${region}` }],
+    });
+  });
+});
+
+describe('/api/search region checks', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  const ANI = { first_name: 'ԱՆԻ', last_name: 'ՊԵՏՐՈՍՅԱՆ', region: 'ԱՐՄԱՎԻՐ' };
+
+  it('searches a community of the region, spelled as in the catalog', async () => {
+    server = await startTestServer();
+
+    const response = await server.post<SearchResponse>('/api/search', {
+      ...ANI,
+      community: 'վաղարշապատ',
+    });
+
+    expect(response.status).toBe(200);
+    expect(server.fake.stats.searchRequests).toBe(1);
+  });
+
+  it.each(['ԱՐԱԲԿԻՐ', 'ՄԵՑԱՄՈՐ'])('refuses %s without asking the registry', async community => {
+    server = await startTestServer();
+
+    const response = await server.post<SearchResponse>('/api/search', { ...ANI, community });
+
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([expect.objectContaining({ field: 'community' })]);
+    expect(server.fake.stats.searchRequests).toBe(0);
+  });
+});
@@ -0,0 +1,126 @@
+// Catalog of marzes and their communities, loaded once at startup from the bundled
+// data/regions.json. Search requests may only name a region/community pair listed there.
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DatasetReader, readDatasetFile } from './dataset.js';
+import { DEFAULT_REGION, FieldError } from '../shared/schema.js';
+import { Region, regionNameKey } from '../shared/regions.js';
+import { DEFAULT_LANGUAGE, Language, translate } from '../shared/i18n.js';
+
+export const REGIONS_FILE = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../../data/regions.json'
+);
+
+// Region and community of a search, spelled as in the catalog
+export type LocationCheck =
+  { ok: true; region: string; community?: string } | { ok: false; errors: FieldError[] };
+
+interface CatalogEntry {
+  name: string;
+  communities: Map<string, string>;
+}
+
+export class RegionCatalog {
+  private readonly entries = new Map<string, CatalogEntry>();
+
+  constructor(private readonly regions: Region[]) {
+    for (const region of regions) {
+      this.entries.set(regionNameKey(region.name), {
+        name: region.name,
+        communities: new Map(region.communities.map(name => [regionNameKey(name), name])),
+      });
+    }
+  }
+
+  list(): Region[] {
+    return this.regions;
+  }
+
+  // Check a search's region (DEFAULT_REGION when empty) and optional community
+  check(
+    region: string | undefined,
+    community: string | undefined,
+    language: Language = DEFAULT_LANGUAGE
+  ): LocationCheck {
+    const entry = this.entries.get(regionNameKey(region || DEFAULT_REGION));
+    if (!entry) {
+      return {
+        ok: false,
+        errors: [{ field: 'region', message: translate(language, 'validation.unknownRegion') }],
+      };
+    }
+
+    if (!community) {
+      return { ok: true, region: entry.name };
+    }
+
+    const name = entry.communities.get(regionNameKey(community));
+    if (!name) {
+      return {
+        ok: false,
+        errors: [
+          {
+            field: 'community',
+            message: translate(language, 'validation.notCommunityOf', { region: entry.name }),
+          },
+        ],
+      };
+    }
+
+    return { ok: true, region: entry.name, community: name };
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+function isName(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+// Regions of a parsed catalog, which must include the default region
+export function parseRegionCatalog(data: unknown, source: string): Region[] {
+  const read = new DatasetReader(source);
+  const entries = read.entries<Region>(data, 'regions');
+  const regions: Region[] = [];
+  const seen = new Set<string>();
+
+  for (const { entry, where } of entries) {
+    if (!isName(entry?.name)) {
+      read.problems.push(`${where}.name is required`);
+      continue;
+    }
+    if (seen.has(regionNameKey(entry.name))) {
+      read.problems.push(`${where}: duplicate region ${entry.name}`);
+      continue;
+    }
+    seen.add(regionNameKey(entry.name));
+
+    if (!Array.isArray(entry.communities) || !entry.communities.every(isName)) {
+      read.problems.push(`${where}.communities must be an array of names`);
+      continue;
+    }
+    const communities = entry.communities.map(name => name.trim());
+    if (new Set(communities.map(regionNameKey)).size !== communities.length) {
+      read.problems.push(`${where}.communities has duplicates`);
+      continue;
+    }
+
+    regions.push({ name: entry.name.trim(), communities });
+  }
+
+  if (!seen.has(regionNameKey(DEFAULT_REGION))) {
+    read.problems.push(`${source}: the default region ${DEFAULT_REGION} is missing`);
+  }
+
+  read.finish();
+  return regions;
+}
+
+// Read and validate the catalog; throws ConfigError if it is missing or invalid
+export function loadRegionCatalog(file: string = REGIONS_FILE): RegionCatalog {
+  return new RegionCatalog(parseRegionCatalog(readDatasetFile(file, 'Region catalog'), file));
+}
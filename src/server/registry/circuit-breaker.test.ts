@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SearchResponse } from '../../shared/schema.js';
+import { TestServer, startTestServer } from '../test-support.js';
+import { CircuitBreaker, CircuitOpenError, withCircuitBreaker } from './circuit-breaker.js';
+import { RegistryClient, RegistryResponse } from './client.js';
+
+const OPTIONS = { failureThreshold: 3, openDurationMs: 30 * 1000 };
+
+const ok = async () => 'ok';
+const fail = async () => {
+  throw new Error('registry down');
+};
+const never = () => false;
+
+// Open the breaker with threshold failing calls
+async function trip(breaker: CircuitBreaker): Promise<void> {
+  for (let i = 0; i < OPTIONS.failureThreshold; i++) {
+    await expect(breaker.execute(fail, never)).rejects.toThrow('registry down');
+  }
+}
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stays closed below the failure threshold and resets on success', async () => {
+    const breaker = new CircuitBreaker(OPTIONS);
+
+    await expect(breaker.execute(fail, never)).rejects.toThrow();
+    await expect(breaker.execute(fail, never)).rejects.toThrow();
+    expect(breaker.snapshot()).toEqual({ state: 'closed', consecutiveFailures: 2 });
+
+    await breaker.execute(ok, never);
+    expect(breaker.snapshot()).toEqual({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('opens after failureThreshold consecutive failures', async () => {
+    const breaker = new CircuitBreaker(OPTIONS);
+
+    await trip(breaker);
+
+    expect(breaker.snapshot()).toEqual({ state: 'open', consecutiveFailures: 3, retryAfter: 30 });
+    expect(breaker.isAcceptingCalls()).toBe(false);
+  });
+
+  it('counts responses classified as failures', async () => {
+    const breaker = new CircuitBreaker({ ...OPTIONS, failureThreshold: 1 });
+
+    await breaker.execute(
+      async () => 503,
+      status => status >= 500
+    );
+
+    expect(breaker.snapshot().state).toBe('open');
+  });
+
+  it('fails fast with a Retry-After while open, without calling upstream', async () => {
+    const breaker = new CircuitBreaker(OPTIONS);
+    await trip(breaker);
+    vi.advanceTimersByTime(10 * 1000);
+    const call = vi.fn(ok);
+
+    const rejected = breaker.execute(call, never);
+
+    await expect(rejected).rejects.toBeInstanceOf(CircuitOpenError);
+    await expect(rejected).rejects.toMatchObject({ code: 'UPSTREAM_UNAVAILABLE', retryAfter: 20 });
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it('closes again after a successful half-open probe', async () => {
+    const breaker = new CircuitBreaker(OPTIONS);
+    await trip(breaker);
+    vi.advanceTimersByTime(OPTIONS.openDurationMs);
+
+    expect(breaker.isAcceptingCalls()).toBe(true);
+    expect(await breaker.execute(ok, never)).toBe('ok');
+    expect(breaker.snapshot()).toEqual({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('re-opens when the half-open probe fails', async () => {
+    const breaker = new CircuitBreaker(OPTIONS);
+    await trip(breaker);
+    vi.advanceTimersByTime(OPTIONS.openDurationMs);
+
+    await expect(breaker.execute(fail, never)).rejects.toThrow('registry down');
+
+    expect(breaker.snapshot()).toMatchObject({ state: 'open', retryAfter: 30 });
+    await expect(breaker.execute(ok, never)).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it('lets a single probe through and fails the others fast', async () => {
+    const breaker = new CircuitBreaker(OPTIONS);
+    await trip(breaker);
+    vi.advanceTimersByTime(OPTIONS.openDurationMs);
+    let finish!: (value: string) => void;
+
+    const probe = breaker.execute(() => new Promise<string>(resolve => (finish = resolve)), never);
+    await expect(breaker.execute(ok, never)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(breaker.snapshot().state).toBe('half_open');
+
+    finish('ok');
+    await probe;
+    expect(breaker.snapshot().state).toBe('closed');
+  });
+
+  it('does not count calls cancelled by the caller', async () => {
+    const breaker = new CircuitBreaker({ ...OPTIONS, failureThreshold: 1 });
+    const caller = new AbortController();
+    caller.abort();
+
+    await expect(breaker.execute(fail, never, caller.signal)).rejects.toThrow();
+
+    expect(breaker.snapshot()).toEqual({ state: 'closed', consecutiveFailures: 0 });
+  });
+});
+
+describe('withCircuitBreaker', () => {
+  function response(statusCode: number): RegistryResponse {
+    return { statusCode, url: 'http://registry.test/Register', body: '', headers: {} };
+  }
+
+  it('opens on blocking statuses but not on client errors', async () => {
+    const statuses = [404, 403];
+    const client: RegistryClient = {
+      fetchSearchPage: async () => response(statuses.shift()!),
+      submitSearch: async () => response(200),
+    };
+    const breaker = new CircuitBreaker({ ...OPTIONS, failureThreshold: 1 });
+    const guarded = withCircuitBreaker(client, breaker);
+
+    await guarded.fetchSearchPage({ useProxy: false });
+    expect(breaker.snapshot().state).toBe('closed');
+
+    await guarded.fetchSearchPage({ useProxy: false });
+    expect(breaker.snapshot().state).toBe('open');
+    await expect(guarded.submitSearch('', { cookies: '' })).rejects.toBeInstanceOf(
+      CircuitOpenError
+    );
+  });
+});
+
+describe('/api/search with the circuit open', () => {
+  const ARMEN = { first_name: 'ԱՐՄԵՆ', last_name: 'ՊԵՏՐՈՍՅԱՆ' };
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  it('answers UPSTREAM_UNAVAILABLE with Retry-After without contacting the registry', async () => {
+    server = await startTestServer({
+      env: { CIRCUIT_FAILURE_THRESHOLD: '1', CIRCUIT_OPEN_MS: '60000' },
+    });
+    server.fake.behavior.formStatus = 503;
+    await server.post('/api/search', ARMEN);
+    const formRequests = server.fake.stats.formRequests;
+    server.fake.behavior.formStatus = 200;
+
+    const response = await server.post<SearchResponse>('/api/search', ARMEN);
+
+    expect(response.status).toBe(503);
+    expect(response.body.code).toBe('UPSTREAM_UNAVAILABLE');
+    expect(Number(response.headers.get('retry-after'))).toBeGreaterThan(50);
+    expect(server.fake.stats.formRequests).toBe(formRequests);
+    expect(server.fake.stats.searchRequests).toBe(0);
+  });
+});
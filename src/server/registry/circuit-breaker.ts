@@ -0,0 +1,162 @@
+import { RegistryClient, RegistryResponse } from './client.js';
+import { UpstreamUnavailableError } from '../errors.js';
+import { Logger, silentLogger } from '../logger.js';
+
+// Circuit breaker for the registry. After repeated failures it opens and every call
+// fails fast until a timer lets a single probe through (half-open); the probe's
+// outcome closes the circuit again or re-opens it.
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a probe is allowed
+  openDurationMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  openDurationMs: 60 * 1000,
+};
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  // Seconds until the next probe, while open
+  retryAfter?: number;
+}
+
+// Thrown instead of calling the registry while the circuit is open
+export class CircuitOpenError extends UpstreamUnavailableError {
+  constructor(retryAfter: number) {
+    super('Registry circuit is open', retryAfter);
+  }
+}
+
+// Statuses that mean the registry is blocking us or is down, as opposed to a bad request
+export function isUpstreamFailureStatus(statusCode: number): boolean {
+  return statusCode >= 500 || statusCode === 402 || statusCode === 403 || statusCode === 429;
+}
+
+export class CircuitBreaker {
+  private readonly options: CircuitBreakerOptions;
+  private readonly log: Logger;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private probeInFlight = false;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}, log: Logger = silentLogger) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+    this.log = log;
+  }
+
+  // Run call through the breaker; isFailure classifies successful-but-bad responses.
+  // Calls cancelled through signal say nothing about the registry and are not counted.
+  async execute<T>(
+    call: () => Promise<T>,
+    isFailure: (result: T) => boolean,
+    signal?: AbortSignal
+  ): Promise<T> {
+    this.beforeCall();
+
+    let result: T;
+    try {
+      result = await call();
+    } catch (error) {
+      if (signal?.aborted) {
+        this.probeInFlight = false;
+      } else {
+        this.recordFailure();
+      }
+      throw error;
+    }
+
+    if (isFailure(result)) {
+      this.recordFailure();
+    } else {
+      this.recordSuccess();
+    }
+    return result;
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      retryAfter: this.state === 'open' ? this.secondsUntilProbe() : undefined,
+    };
+  }
+
+  // False while the circuit is open and calls fail fast; true again once a probe may go out
+  isAcceptingCalls(): boolean {
+    return this.state !== 'open' || Date.now() >= this.openUntil;
+  }
+
+  private beforeCall(): void {
+    if (this.state === 'open') {
+      if (Date.now() < this.openUntil) {
+        throw new CircuitOpenError(this.secondsUntilProbe());
+      }
+      this.transition('half_open');
+    }
+
+    if (this.state === 'half_open') {
+      // Only one probe at a time; everyone else keeps failing fast
+      if (this.probeInFlight) {
+        throw new CircuitOpenError(1);
+      }
+      this.probeInFlight = true;
+    }
+  }
+
+  private recordSuccess(): void {
+    this.probeInFlight = false;
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  private recordFailure(): void {
+    this.probeInFlight = false;
+    this.consecutiveFailures++;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openUntil = Date.now() + this.options.openDurationMs;
+      if (this.state !== 'open') {
+        this.transition('open');
+      }
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    const level = state === 'open' ? 'warn' : 'info';
+    this.log[level]('Registry circuit state changed', {
+      from: this.state,
+      to: state,
+      consecutiveFailures: this.consecutiveFailures,
+    });
+    this.state = state;
+  }
+
+  private secondsUntilProbe(): number {
+    return Math.max(1, Math.ceil((this.openUntil - Date.now()) / 1000));
+  }
+}
+
+// RegistryClient whose every call goes through the breaker
+export function withCircuitBreaker(
+  client: RegistryClient,
+  breaker: CircuitBreaker
+): RegistryClient {
+  const isFailure = (response: RegistryResponse) => isUpstreamFailureStatus(response.statusCode);
+
+  return {
+    fetchSearchPage: options =>
+      breaker.execute(() => client.fetchSearchPage(options), isFailure, options.signal),
+    submitSearch: (formBody, options) =>
+      breaker.execute(() => client.submitSearch(formBody, options), isFailure, options.signal),
+  };
+}
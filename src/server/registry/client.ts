@@ -0,0 +1,149 @@
+import type { IncomingHttpHeaders } from 'http';
+import { gotScraping } from 'got-scraping';
+
+// Raw HTTP response from the registry, before any parsing
+export interface RegistryResponse {
+  statusCode: number;
+  // Final URL after redirects (cookies are scoped to it)
+  url: string;
+  body: string;
+  headers: IncomingHttpHeaders;
+}
+
+// Transport to the upstream registry. The Express app receives one at startup,
+// so tests and local development can point it at the fake registry instead.
+export interface RegistryClient {
+  // GET the search page (anti-forgery token + session cookies)
+  fetchSearchPage(options: { useProxy: boolean; signal?: AbortSignal }): Promise<RegistryResponse>;
+  // POST an URL-encoded search form
+  submitSearch(
+    formBody: string,
+    options: { cookies: string; signal?: AbortSignal }
+  ): Promise<RegistryResponse>;
+}
+
+export const DEFAULT_REGISTRY_URL = 'https://prelive.elections.am/Register';
+
+export const USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
+
+export const DEFAULT_REQUEST_TIMEOUT = 20000;
+
+export interface GotRegistryClientOptions {
+  baseUrl: string;
+  proxyUrl?: string;
+  // Per-request timeout in ms
+  timeoutMs?: number;
+}
+
+// got-scraping based client that talks to the real registry
+export function createGotRegistryClient(options: GotRegistryClientOptions): RegistryClient {
+  const { baseUrl, proxyUrl, timeoutMs = DEFAULT_REQUEST_TIMEOUT } = options;
+  const origin = new URL(baseUrl).origin;
+
+  return {
+    async fetchSearchPage({ useProxy, signal }) {
+      const response = await gotScraping({
+        url: baseUrl,
+        method: 'GET',
+        signal,
+        timeout: {
+          request: timeoutMs,
+        },
+        headers: {
+          'User-Agent': USER_AGENT,
+          Accept:
+            'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
+          'Accept-Language': 'ru-RU,ru;q=0.9,en-US;q=0.8,en;q=0.7,hy;q=0.6',
+          'Accept-Encoding': 'gzip, deflate, br',
+          'Cache-Control': 'max-age=0',
+          'Sec-Ch-Ua': '"Google Chrome";v="131", "Chromium";v="131", "Not_A Brand";v="24"',
+          'Sec-Ch-Ua-Mobile': '?0',
+          'Sec-Ch-Ua-Platform': '"Windows"',
+          'Sec-Fetch-Dest': 'document',
+          'Sec-Fetch-Mode': 'navigate',
+          'Sec-Fetch-Site': 'none',
+          'Sec-Fetch-User': '?1',
+          'Upgrade-Insecure-Requests': '1',
+          DNT: '1',
+        },
+        headerGeneratorOptions: {
+          browsers: [
+            {
+              name: 'chrome',
+              minVersion: 120,
+              maxVersion: 131,
+            },
+          ],
+          devices: ['desktop'],
+          locales: ['ru-RU', 'en-US', 'hy-AM'],
+          operatingSystems: ['windows'],
+        },
+        proxyUrl: useProxy ? proxyUrl : undefined,
+        retry: {
+          limit: 2,
+          methods: ['GET'],
+        },
+      });
+
+      return {
+        statusCode: response.statusCode,
+        url: response.url,
+        body: response.body,
+        headers: response.headers,
+      };
+    },
+
+    async submitSearch(formBody, { cookies, signal }) {
+      const response = await gotScraping({
+        url: baseUrl,
+        method: 'POST',
+        signal,
+        body: formBody,
+        timeout: {
+          request: timeoutMs,
+        },
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Cookie: cookies,
+          Referer: baseUrl,
+          Origin: origin,
+          'User-Agent': USER_AGENT,
+          Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+          'Accept-Language': 'ru-RU,ru;q=0.9,en-US;q=0.8,en;q=0.7',
+          'Accept-Encoding': 'gzip, deflate, br',
+          DNT: '1',
+          Connection: 'keep-alive',
+          'Upgrade-Insecure-Requests': '1',
+          'Sec-Fetch-Dest': 'document',
+          'Sec-Fetch-Mode': 'navigate',
+          'Sec-Fetch-Site': 'same-origin',
+          'Sec-Fetch-User': '?1',
+        },
+        headerGeneratorOptions: {
+          browsers: [
+            {
+              name: 'chrome',
+              minVersion: 120,
+              maxVersion: 131,
+            },
+          ],
+          devices: ['desktop'],
+          locales: ['ru-RU', 'en-US'],
+          operatingSystems: ['windows'],
+        },
+        proxyUrl: undefined,
+        retry: {
+          limit: 1,
+        },
+      });
+
+      return {
+        statusCode: response.statusCode,
+        url: response.url,
+        body: response.body,
+        headers: response.headers,
+      };
+    },
+  };
+}
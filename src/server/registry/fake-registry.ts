@@ -0,0 +1,245 @@
+import express, { Request, Response } from 'express';
+import { randomBytes } from 'crypto';
+import { readFileSync } from 'fs';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+// Offline stand-in for the upstream registry. It serves the anti-forgery form and
+// paginated result tables built from the fixtures in fixtures/registry, so the API
+// can be exercised without touching prelive.elections.am.
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const FIXTURES_DIR = path.join(__dirname, '../../../fixtures/registry');
+const ANTIFORGERY_COOKIE = '.AspNetCore.Antiforgery.fake';
+const TOKEN_INPUT_PATTERN =
+  /(<input name="__RequestVerificationToken" type="hidden" value=")[^"]*(")/g;
+
+export interface FakeVoter {
+  last_name: string;
+  first_name: string;
+  middle_name: string;
+  birth_date: string; // DD/MM/YYYY
+  region: string;
+  community: string;
+  address: string;
+  district: string;
+}
+
+// Knobs a test can flip at runtime to simulate upstream trouble
+export interface FakeRegistryBehavior {
+  // Status code for GET (token page) responses; 200 serves the form
+  formStatus: number;
+  // Status code for POST (search) responses; 200 serves results
+  searchStatus: number;
+  // Serve a page without the anti-forgery token
+  omitToken: boolean;
+  // Wait this long before answering any request (simulates a slow registry)
+  responseDelayMs: number;
+  // Answer searches with this page instead of results (e.g. a maintenance page)
+  searchPage: string | null;
+}
+
+export interface FakeRegistryStats {
+  formRequests: number;
+  searchRequests: number;
+  rejectedTokens: number;
+}
+
+export interface FakeRegistryOptions {
+  port?: number;
+  path?: string;
+  pageSize?: number;
+  voters?: FakeVoter[];
+}
+
+export interface FakeRegistry {
+  url: string;
+  behavior: FakeRegistryBehavior;
+  stats: FakeRegistryStats;
+  // Forget every issued token, as the upstream does when its keys rotate
+  revokeTokens(): void;
+  close(): Promise<void>;
+}
+
+interface VoterFixture {
+  pageSize: number;
+  voters: FakeVoter[];
+}
+
+function loadFixture<T = string>(name: string, json = false): T {
+  const content = readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+  return (json ? JSON.parse(content) : content) as T;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function isoToRegistryDate(iso: string): string {
+  const [year, month, day] = iso.split('-');
+  return `${day}/${month}/${year}`;
+}
+
+function matches(voter: FakeVoter, form: Record<string, string>): boolean {
+  const same = (a: string, b: string | undefined) => !b || a.toUpperCase() === b.toUpperCase();
+
+  return (
+    same(voter.first_name, form.FirstName) &&
+    same(voter.last_name, form.LastName) &&
+    same(voter.middle_name, form.FatherName) &&
+    same(voter.region, form.State) &&
+    same(voter.community, form.Community) &&
+    (!form.BirthDate || voter.birth_date === isoToRegistryDate(form.BirthDate)) &&
+    (!form.District || voter.district.startsWith(`${form.District}/`))
+  );
+}
+
+function renderResultsTable(voters: FakeVoter[]): string {
+  const rows = voters
+    .map(
+      voter => `
+            <tr>
+                <td>${escapeHtml(`${voter.last_name} ${voter.first_name} ${voter.middle_name}`)}</td>
+                <td>${escapeHtml(voter.birth_date)}</td>
+                <td>${escapeHtml(`${voter.region}, ${voter.community}`)}</td>
+                <td>${escapeHtml(voter.address)}</td>
+                <td>${escapeHtml(voter.district)}</td>
+            </tr>`
+    )
+    .join('');
+
+  // The upstream keeps a hidden template row in every table
+  return `
+    <table class="table">
+        <thead>
+            <tr>
+                <th>Անուն Ազգանուն Հայրանուն</th>
+                <th>Ծննդյան ա/թ</th>
+                <th>Մարզ, Համայնք</th>
+                <th>Հասցե</th>
+                <th>ԸԸՀ/Տեղամաս</th>
+            </tr>
+        </thead>
+        <tbody>
+            <tr style="display:none"><td></td><td></td><td></td><td></td><td></td></tr>${rows}
+        </tbody>
+    </table>
+`;
+}
+
+export async function startFakeRegistry(options: FakeRegistryOptions = {}): Promise<FakeRegistry> {
+  const fixture = loadFixture<VoterFixture>('voters.json', true);
+  const formPage = loadFixture('search-form.html');
+  const registryPath = options.path || '/Register';
+  const pageSize = options.pageSize || fixture.pageSize;
+  const voters = options.voters || fixture.voters;
+
+  const behavior: FakeRegistryBehavior = {
+    formStatus: 200,
+    searchStatus: 200,
+    omitToken: false,
+    responseDelayMs: 0,
+    searchPage: null,
+  };
+  const stats: FakeRegistryStats = { formRequests: 0, searchRequests: 0, rejectedTokens: 0 };
+  // token -> cookie value it was issued with
+  const issuedTokens = new Map<string, string>();
+
+  const renderPage = (token: string, table = '') => {
+    const page = formPage.replace(TOKEN_INPUT_PATTERN, behavior.omitToken ? '' : `$1${token}$2`);
+    return page.replace('\n    </section>', `${table}\n    </section>`);
+  };
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+  app.use((req, res, next) => {
+    if (behavior.responseDelayMs > 0) {
+      setTimeout(next, behavior.responseDelayMs);
+    } else {
+      next();
+    }
+  });
+
+  app.get(registryPath, (req: Request, res: Response) => {
+    stats.formRequests++;
+
+    if (behavior.formStatus !== 200) {
+      return res.status(behavior.formStatus).send('<html><body>Forbidden</body></html>');
+    }
+
+    const token = randomBytes(24).toString('base64url');
+    const cookie = randomBytes(16).toString('base64url');
+    issuedTokens.set(token, cookie);
+
+    res.cookie(ANTIFORGERY_COOKIE, cookie, { path: '/', httpOnly: true, sameSite: 'strict' });
+    res.type('html').send(renderPage(token));
+  });
+
+  app.post(registryPath, (req: Request, res: Response) => {
+    stats.searchRequests++;
+
+    if (behavior.searchStatus !== 200) {
+      return res.status(behavior.searchStatus).send('<html><body>Unavailable</body></html>');
+    }
+
+    if (behavior.searchPage !== null) {
+      return res.type('html').send(behavior.searchPage);
+    }
+
+    const form = req.body as Record<string, string>;
+    const token = form.__RequestVerificationToken;
+    const cookieHeader = req.get('cookie') || '';
+    const expectedCookie = token ? issuedTokens.get(token) : undefined;
+
+    if (!expectedCookie || !cookieHeader.includes(`${ANTIFORGERY_COOKIE}=${expectedCookie}`)) {
+      stats.rejectedTokens++;
+      return res
+        .status(400)
+        .send('<html><body>The antiforgery token could not be validated.</body></html>');
+    }
+
+    const pageIndex = Math.max(1, parseInt(form['RegisterPaging.PageIndex'] || '1', 10) || 1);
+    const found = voters.filter(voter => matches(voter, form));
+    const pageVoters = found.slice((pageIndex - 1) * pageSize, pageIndex * pageSize);
+
+    res
+      .type('html')
+      .send(renderPage(token, pageVoters.length ? renderResultsTable(pageVoters) : ''));
+  });
+
+  return new Promise(resolve => {
+    const server = app.listen(options.port || 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+
+      resolve({
+        url: `http://127.0.0.1:${port}${registryPath}`,
+        behavior,
+        stats,
+        revokeTokens: () => issuedTokens.clear(),
+        close: () =>
+          new Promise<void>(done => {
+            // Keep-alive sockets from the API would otherwise hold the server open
+            server.closeAllConnections();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+// `npm run dev:fake-registry` starts a standalone instance for local development
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.FAKE_REGISTRY_PORT || '5080', 10);
+
+  startFakeRegistry({ port }).then(registry => {
+    console.log(`🧪 Fake registry listening on ${registry.url}`);
+    console.log(`   Start the API with REGISTRY_URL=${registry.url}`);
+  });
+}
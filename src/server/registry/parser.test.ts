@@ -0,0 +1,57 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from 'vitest';
+import { extractAntiForgeryToken, parseResultsPage } from './parser.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '../../../fixtures');
+
+const page = (name: string) => readFileSync(path.join(FIXTURES_DIR, 'registry', name), 'utf8');
+
+describe('parseResultsPage', () => {
+  // Stored registry pages (fixtures/registry/pages) and what the parser makes of them
+  it.each([
+    ['pages/results.html', 'OK'],
+    ['pages/empty-table.html', 'EMPTY'],
+    // What the registry answered to a search that found nobody
+    ['search-form.html', 'EMPTY'],
+    ['pages/changed-headers.html', 'LAYOUT_CHANGED'],
+    ['pages/headerless-table.html', 'LAYOUT_CHANGED'],
+    ['pages/short-rows.html', 'LAYOUT_CHANGED'],
+    ['pages/no-search-echo.html', 'LAYOUT_CHANGED'],
+    ['pages/blocked.html', 'PARSE_FAILED'],
+  ])('parses %s as %s', (name, status) => {
+    const result = parseResultsPage(page(name));
+
+    expect(result.status).toBe(status);
+    expect(result).toMatchSnapshot();
+  });
+
+  it('skips hidden rows, including ones with text', () => {
+    const result = parseResultsPage(page('pages/results.html'));
+
+    expect(result.status === 'OK' && result.results.map(row => row.name)).toEqual([
+      'ՊԵՏՐՈՍՅԱՆ ԱՐՄԵՆ ԱՎԹԱՆԴԻԼԻ',
+      'ՊԵՏՐՈՍՅԱՆ ԱՐՄԵՆ ՍԱՄՎԵԼԻ',
+      'ՊԵՏՐՈՍՅԱՆ ԱՐՄԵՆ ԳԱԳԻԿԻ',
+    ]);
+  });
+
+  it('never reports a page without a table or search echo as empty', () => {
+    const withoutTable = page('pages/results.html').replace(/<table[\s\S]*<\/table>/, '');
+    const withoutEcho = withoutTable.replace(/<input[^>]*name="Current\.[^>]*>/g, '');
+
+    expect(parseResultsPage(withoutTable).status).toBe('EMPTY');
+    expect(parseResultsPage(withoutEcho).status).toBe('LAYOUT_CHANGED');
+  });
+});
+
+describe('extractAntiForgeryToken', () => {
+  it('reads the token of the search form', () => {
+    expect(extractAntiForgeryToken(page('search-form.html'))).toMatch(/^CfDJ8/);
+  });
+
+  it('returns null for a page without one', () => {
+    expect(extractAntiForgeryToken(page('pages/blocked.html'))).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+import * as cheerio from 'cheerio';
+import { SearchResult } from '../../shared/schema.js';
+
+// Parser for registry result pages. Column positions and header texts are declared per
+// layout version, so an upstream markup change surfaces as LAYOUT_CHANGED instead of
+// being mistaken for "no results": EMPTY needs positive evidence, either a result table
+// with the expected headers and no rows, or the registry's answer to a search that found
+// nobody (fixtures/registry/search-form.html is one).
+
+interface ColumnMapping {
+  // Every text column of a result row; masked is set by the privacy policy
+  field: Exclude<keyof SearchResult, 'masked'>;
+  // Matched against the <th> text at the same position (case-insensitive)
+  header: RegExp;
+}
+
+export interface ResultLayout {
+  version: number;
+  columns: ColumnMapping[];
+  // Present on the answer to a submitted search; with no result table it means no hits
+  searchEcho: string;
+}
+
+export const RESULT_LAYOUT_V1: ResultLayout = {
+  version: 1,
+  // The registry echoes the submitted query in hidden Current.* inputs and leaves the
+  // table out when nobody matched
+  searchEcho: 'input[name="Current.LastName"]',
+  columns: [
+    { field: 'name', header: /անուն|ազգանուն/i },
+    { field: 'birth_date', header: /ծննդ/i },
+    { field: 'region_community', header: /մարզ|համայնք/i },
+    { field: 'address', header: /հասցե/i },
+    { field: 'district', header: /ըըհ|տեղամաս|ընտրական/i },
+  ],
+};
+
+export const CURRENT_LAYOUT = RESULT_LAYOUT_V1;
+
+export type ParseResult =
+  | { status: 'OK'; layoutVersion: number; results: SearchResult[] }
+  | { status: 'EMPTY'; layoutVersion: number }
+  | { status: 'PARSE_FAILED'; layoutVersion: number; reason: string }
+  | { status: 'LAYOUT_CHANGED'; layoutVersion: number; reason: string; headers: string[] };
+
+const TOKEN_SELECTOR = 'input[name="__RequestVerificationToken"]';
+
+// Clean text
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function isHiddenRow(style: string | undefined): boolean {
+  return !!style && /display\s*:\s*none/i.test(style);
+}
+
+// Anti-forgery token of a registry page, or null when the page doesn't carry one
+export function extractAntiForgeryToken(html: string): string | null {
+  const $ = cheerio.load(html);
+  const token = $(TOKEN_SELECTOR).first().val();
+  return typeof token === 'string' && token.length > 0 ? token : null;
+}
+
+export function parseResultsPage(html: string, layout: ResultLayout = CURRENT_LAYOUT): ParseResult {
+  const layoutVersion = layout.version;
+  const $ = cheerio.load(html);
+
+  // Every genuine registry page carries the search form and its token; without it we are
+  // looking at an error/captcha page, not at an empty result
+  if ($(TOKEN_SELECTOR).length === 0) {
+    return {
+      status: 'PARSE_FAILED',
+      layoutVersion,
+      reason: 'anti-forgery token not found',
+    };
+  }
+
+  const table = $('table').first();
+  if (table.length === 0) {
+    if ($(layout.searchEcho).length > 0) {
+      return { status: 'EMPTY', layoutVersion };
+    }
+    return {
+      status: 'LAYOUT_CHANGED',
+      layoutVersion,
+      reason: 'neither a result table nor the search echo found',
+      headers: [],
+    };
+  }
+
+  const headers = table
+    .find('thead th')
+    .map((i, th) => cleanText($(th).text()))
+    .get();
+
+  if (headers.length === 0) {
+    return {
+      status: 'LAYOUT_CHANGED',
+      layoutVersion,
+      reason: 'result table has no header row',
+      headers,
+    };
+  }
+
+  const mismatch = layout.columns.findIndex(
+    (column, i) => i >= headers.length || !column.header.test(headers[i])
+  );
+
+  if (mismatch !== -1) {
+    return {
+      status: 'LAYOUT_CHANGED',
+      layoutVersion,
+      reason: `unexpected header in column ${mismatch + 1}`,
+      headers,
+    };
+  }
+
+  const results: SearchResult[] = [];
+  let malformedRow: number | null = null;
+
+  table.find('tbody tr').each((index, row) => {
+    const $row = $(row);
+    if (isHiddenRow($row.attr('style'))) return;
+
+    const cells = $row.find('td');
+    if (cells.length < layout.columns.length) {
+      malformedRow = index + 1;
+      return false;
+    }
+
+    const result = {} as SearchResult;
+    layout.columns.forEach((column, i) => {
+      result[column.field] = cleanText($(cells[i]).text());
+    });
+
+    if (result.name) {
+      results.push(result);
+    }
+  });
+
+  if (malformedRow !== null) {
+    return {
+      status: 'LAYOUT_CHANGED',
+      layoutVersion,
+      reason: `row ${malformedRow} has fewer than ${layout.columns.length} cells`,
+      headers,
+    };
+  }
+
+  if (results.length === 0) {
+    return { status: 'EMPTY', layoutVersion };
+  }
+
+  return { status: 'OK', layoutVersion, results };
+}
@@ -0,0 +1,222 @@
+import { SearchResult } from '../../shared/schema.js';
+import { parseDate, toIsoDate } from '../../shared/dates.js';
+import { RegistryClient } from './client.js';
+import { parseResultsPage } from './parser.js';
+import {
+  RegistrySession,
+  TokenManager,
+  TokenStatus,
+  isAntiForgeryRejection,
+} from './token-manager.js';
+import { Logger, silentLogger } from '../logger.js';
+import { sleep } from '../abort.js';
+import {
+  ParseFailedError,
+  TokenUnavailableError,
+  UpstreamUnavailableError,
+  toUpstreamError,
+} from '../errors.js';
+
+export interface RegistrySearchParams {
+  firstName: string;
+  lastName: string;
+  region?: string;
+  community?: string;
+  middleName?: string;
+  birthDate?: string;
+  street?: string;
+  building?: string;
+  apartment?: string;
+  district?: string;
+  // 1-based result page to fetch
+  page?: number;
+}
+
+export interface RegistryServiceOptions {
+  maxRetries: number;
+  retryDelay: number;
+  tokenCacheDuration: number;
+  // Pause before each POST, so the registry sees a human-paced session
+  pageDelay: number;
+  // Rows on a full registry result page; a shorter page is the last one
+  pageSize: number;
+  useProxy: boolean;
+}
+
+export const DEFAULT_REGISTRY_SERVICE_OPTIONS: RegistryServiceOptions = {
+  maxRetries: 3,
+  retryDelay: 2000,
+  tokenCacheDuration: 5 * 60 * 1000, // Cache token for 5 minutes
+  pageDelay: 500,
+  pageSize: 10,
+  useProxy: false,
+};
+
+// Per-call context from the app: a request-scoped logger, and a signal that aborts
+// all upstream work once the request's deadline passes or the client goes away
+export interface SearchContext {
+  log?: Logger;
+  signal?: AbortSignal;
+}
+
+// One registry result page
+export interface RegistrySearchOutcome {
+  results: SearchResult[];
+  page: number;
+  // Whether the registry may have another page after this one
+  hasMore: boolean;
+}
+
+// Registry form value (YYYY-MM-DD) of a birth date the schema has validated; a date that
+// is not real cannot be searched, so it is sent as no date
+export function convertDateFormat(dateStr: string): string {
+  const date = parseDate(dateStr);
+  return date ? toIsoDate(date) : '';
+}
+
+// Pagination and result-table parsing on top of a RegistryClient; tokens come from a TokenManager
+export class RegistryService {
+  private readonly client: RegistryClient;
+  private readonly options: RegistryServiceOptions;
+  private readonly log: Logger;
+  private readonly tokens: TokenManager;
+
+  constructor(
+    client: RegistryClient,
+    options: Partial<RegistryServiceOptions> = {},
+    log: Logger = silentLogger
+  ) {
+    this.client = client;
+    this.options = { ...DEFAULT_REGISTRY_SERVICE_OPTIONS, ...options };
+    this.log = log;
+    this.tokens = new TokenManager(client, this.options, log);
+  }
+
+  // Anti-forgery session state, for readiness checks
+  tokenStatus(): TokenStatus {
+    return this.tokens.status();
+  }
+
+  // Get search results
+  async search(
+    params: RegistrySearchParams,
+    context: SearchContext = {}
+  ): Promise<RegistrySearchOutcome> {
+    const log = context.log || this.log;
+    const { signal } = context;
+    const {
+      firstName,
+      lastName,
+      region = 'ԵՐԵՎԱՆ',
+      community = '',
+      middleName = '',
+      birthDate = '',
+      street = '',
+      building = '',
+      apartment = '',
+      district = '',
+      page = 1,
+    } = params;
+
+    // Only which fields were filled in, never their values
+    log.info('Registry search started', {
+      region,
+      fields: Object.entries(params)
+        .filter(([, value]) => !!value)
+        .map(([field]) => field),
+    });
+
+    let session: RegistrySession = await this.tokens.getSession(log, signal);
+    // A rejected token is replaced once per search; a second rejection is a real failure
+    let tokenRefreshed = false;
+
+    const formData: Record<string, string> = {
+      __RequestVerificationToken: session.token,
+      SearchBy: 'SearchByData',
+      FirstName: firstName,
+      LastName: lastName,
+      FatherName: middleName,
+      BirthDate: convertDateFormat(birthDate),
+      State: region,
+      Community: community,
+      Street: street,
+      Building: building,
+      Appartment: apartment,
+      District: district,
+      'RegisterPaging.PageIndex': String(page),
+    };
+
+    for (;;) {
+      // Small delay to ensure session is established
+      await sleep(this.options.pageDelay, signal);
+
+      formData.__RequestVerificationToken = session.token;
+
+      // Convert to URL-encoded format
+      const formBody = Object.keys(formData)
+        .map(key => encodeURIComponent(key) + '=' + encodeURIComponent(formData[key]))
+        .join('&');
+
+      let response;
+      try {
+        const cookies = await this.tokens.cookieHeader(session);
+        response = await this.client.submitSearch(formBody, { cookies, signal });
+      } catch (error: any) {
+        // Report why the request was aborted rather than got's generic AbortError
+        signal?.throwIfAborted();
+        log.warn('Result page request failed', { page, err: error });
+        throw toUpstreamError(error, `Page ${page} request failed`);
+      }
+
+      if (isAntiForgeryRejection(response)) {
+        this.tokens.invalidate(session);
+
+        if (tokenRefreshed) {
+          log.error('Registry rejected a freshly issued token', { page });
+          throw new TokenUnavailableError('Registry rejected a freshly issued token');
+        }
+
+        log.warn('Registry rejected the anti-forgery token, refreshing', { page });
+        tokenRefreshed = true;
+        session = await this.tokens.getSession(log, signal);
+        continue;
+      }
+
+      await this.tokens.storeCookies(session, response);
+
+      if (response.statusCode !== 200) {
+        log.warn('Result page returned unexpected status', {
+          page,
+          statusCode: response.statusCode,
+          // 403 without a proxy usually means the registry blocks this IP
+          hint:
+            response.statusCode === 403 && !this.options.useProxy
+              ? 'set USE_PROXY=true'
+              : undefined,
+        });
+        throw new UpstreamUnavailableError(`Page ${page} returned status ${response.statusCode}`);
+      }
+
+      const parsed = parseResultsPage(response.body);
+
+      if (parsed.status === 'PARSE_FAILED' || parsed.status === 'LAYOUT_CHANGED') {
+        // Not an empty result: the page didn't look like a registry result page
+        log.error('Result page could not be parsed', {
+          page,
+          status: parsed.status,
+          layoutVersion: parsed.layoutVersion,
+          reason: parsed.reason,
+        });
+        throw new ParseFailedError(`Page ${page}: ${parsed.status}: ${parsed.reason}`);
+      }
+
+      const results = parsed.status === 'OK' ? parsed.results : [];
+      // The registry shows no total, so only a full page says another one may follow
+      const hasMore = results.length >= this.options.pageSize;
+
+      log.info('Registry search finished', { page, results: results.length, hasMore });
+
+      return { results, page, hasMore };
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { RegistryClient, RegistryResponse } from './client.js';
+import { TokenManager, TokenManagerOptions } from './token-manager.js';
+
+const OPTIONS: TokenManagerOptions = {
+  maxRetries: 3,
+  retryDelay: 0,
+  tokenCacheDuration: 60 * 1000,
+  useProxy: false,
+};
+
+const FORM_PAGE =
+  '<form><input name="__RequestVerificationToken" type="hidden" value="token-1" /></form>';
+
+function response(statusCode: number, body = ''): RegistryResponse {
+  return { statusCode, url: 'http://registry.test/Register', body, headers: {} };
+}
+
+// Client whose token page answers with the given statuses in turn (200 serves the form)
+function stubClient(statuses: number[]) {
+  const calls: Array<AbortSignal | undefined> = [];
+  const client: RegistryClient = {
+    fetchSearchPage: async ({ signal }) => {
+      calls.push(signal);
+      const status = statuses[Math.min(calls.length, statuses.length) - 1];
+      return response(status, status === 200 ? FORM_PAGE : '<html>Error</html>');
+    },
+    submitSearch: async () => response(200),
+  };
+  return { client, calls };
+}
+
+describe('TokenManager', () => {
+  it('caches the session it fetched', async () => {
+    const { client, calls } = stubClient([200]);
+    const tokens = new TokenManager(client, OPTIONS);
+
+    const first = await tokens.getSession();
+    const second = await tokens.getSession();
+
+    expect(first.token).toBe('token-1');
+    expect(second).toBe(first);
+    expect(calls).toHaveLength(1);
+  });
+
+  it.each([403, 429, 500, 503])('stops at a %i on the token page', async status => {
+    const { client, calls } = stubClient([status, 200]);
+    const tokens = new TokenManager(client, OPTIONS);
+
+    await expect(tokens.getSession()).rejects.toMatchObject({ code: 'UPSTREAM_UNAVAILABLE' });
+    expect(calls).toHaveLength(1);
+    expect(tokens.status()).toMatchObject({
+      available: false,
+      lastFailure: 'UPSTREAM_UNAVAILABLE',
+    });
+  });
+
+  it('retries a page without a token', async () => {
+    const { client, calls } = stubClient([200, 200]);
+    client.fetchSearchPage = async ({ signal }) => {
+      calls.push(signal);
+      return response(200, calls.length === 1 ? '<html>No form</html>' : FORM_PAGE);
+    };
+    const tokens = new TokenManager(client, OPTIONS);
+
+    expect((await tokens.getSession()).token).toBe('token-1');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('backs off between attempts', async () => {
+    const { client } = stubClient([404]);
+    const tokens = new TokenManager(client, { ...OPTIONS, maxRetries: 3, retryDelay: 50 });
+    const startedAt = Date.now();
+
+    await expect(tokens.getSession()).rejects.toMatchObject({ code: 'UPSTREAM_UNAVAILABLE' });
+    // 50 ms, then 100 ms
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(140);
+  });
+
+  describe('cancellation', () => {
+    // Token page that only answers once released, and fails when its signal aborts
+    function hangingClient() {
+      const signals: AbortSignal[] = [];
+      let release = () => {};
+      const client: RegistryClient = {
+        fetchSearchPage: ({ signal }) =>
+          new Promise((resolve, reject) => {
+            signals.push(signal as AbortSignal);
+            release = () => resolve(response(200, FORM_PAGE));
+            signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          }),
+        submitSearch: async () => response(200),
+      };
+      return { client, signals, release: () => release() };
+    }
+
+    it('aborts the fetch once its only waiter gives up', async () => {
+      const { client, signals } = hangingClient();
+      const tokens = new TokenManager(client, OPTIONS);
+      const caller = new AbortController();
+
+      const session = tokens.getSession(undefined, caller.signal);
+      caller.abort(new Error('deadline'));
+
+      await expect(session).rejects.toThrow('deadline');
+      expect(signals[0].aborted).toBe(true);
+      // Giving up says nothing about the registry
+      expect(tokens.status()).toEqual(expect.objectContaining({ available: true }));
+    });
+
+    it('keeps the fetch going while another request still waits for it', async () => {
+      const { client, signals, release } = hangingClient();
+      const tokens = new TokenManager(client, OPTIONS);
+      const leaving = new AbortController();
+
+      const abandoned = tokens.getSession(undefined, leaving.signal);
+      const waiting = tokens.getSession(undefined, new AbortController().signal);
+      leaving.abort(new Error('client closed'));
+      release();
+
+      await expect(abandoned).rejects.toThrow('client closed');
+      expect((await waiting).token).toBe('token-1');
+      expect(signals).toHaveLength(1);
+      expect(signals[0].aborted).toBe(false);
+    });
+
+    it('cancels the backoff between attempts', async () => {
+      const { client, calls } = stubClient([404]);
+      const tokens = new TokenManager(client, { ...OPTIONS, retryDelay: 60 * 1000 });
+      const caller = new AbortController();
+      const startedAt = Date.now();
+
+      const session = tokens.getSession(undefined, caller.signal);
+      setTimeout(() => caller.abort(new Error('deadline')), 20);
+
+      await expect(session).rejects.toThrow('deadline');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(calls).toHaveLength(1);
+      expect(calls[0]?.aborted).toBe(true);
+    });
+  });
+});
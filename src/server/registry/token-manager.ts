@@ -0,0 +1,216 @@
+import { CookieJar } from 'tough-cookie';
+import { RegistryClient, RegistryResponse } from './client.js';
+import { extractAntiForgeryToken } from './parser.js';
+import { CircuitOpenError, isUpstreamFailureStatus } from './circuit-breaker.js';
+import {
+  SearchError,
+  TokenUnavailableError,
+  UpstreamUnavailableError,
+  toUpstreamError,
+} from '../errors.js';
+import { Logger, silentLogger } from '../logger.js';
+import { ErrorCode } from '../../shared/schema.js';
+import { sleep } from '../abort.js';
+import { SearchCoalescer } from '../coalesce.js';
+
+// Anti-forgery session with the registry: the token from the search form plus the
+// cookies it is bound to. ASP.NET rejects a POST unless both come from the same GET.
+
+export interface RegistrySession {
+  token: string;
+  // Cookies of this session, with their path/expiry attributes
+  jar: CookieJar;
+  // URL the cookies were issued for (the search page after redirects)
+  url: string;
+  fetchedAt: number;
+}
+
+export interface TokenManagerOptions {
+  maxRetries: number;
+  retryDelay: number;
+  // How long a session is reused before a fresh one is fetched
+  tokenCacheDuration: number;
+  useProxy: boolean;
+}
+
+export interface TokenStatus {
+  // A search could get a session: one is cached, or fetching has not failed yet
+  available: boolean;
+  // A session is cached (fresh or not)
+  cached: boolean;
+  ageMs?: number;
+  // Code of the last failed fetch, cleared once a fetch succeeds
+  lastFailure?: ErrorCode;
+}
+
+// The registry answers 400 Bad Request when the token/cookie pair is rejected
+export function isAntiForgeryRejection(response: RegistryResponse): boolean {
+  return response.statusCode === 400;
+}
+
+function setCookieHeaders(response: RegistryResponse): string[] {
+  const header = response.headers['set-cookie'];
+  if (!header) return [];
+  return Array.isArray(header) ? header : [header];
+}
+
+// Key of the one token fetch that can be in flight
+const TOKEN_FETCH = 'token';
+
+export class TokenManager {
+  private readonly client: RegistryClient;
+  private readonly options: TokenManagerOptions;
+  private readonly log: Logger;
+
+  private current: RegistrySession | null = null;
+  // The fetch in progress is shared by every caller that arrives while it runs, so they
+  // all get the same outcome: the new session, the stale fallback, or the same error.
+  // It is cancelled once every one of them has given up.
+  private readonly refreshing = new SearchCoalescer();
+  private lastFailure: ErrorCode | undefined;
+
+  constructor(client: RegistryClient, options: TokenManagerOptions, log: Logger = silentLogger) {
+    this.client = client;
+    this.options = options;
+    this.log = log;
+  }
+
+  // A usable session: the cached one while fresh, otherwise a newly fetched one.
+  // signal stops this caller's wait; the fetch and its backoff keep going while another
+  // request still waits for them, and are aborted once none does.
+  async getSession(log: Logger = this.log, signal?: AbortSignal): Promise<RegistrySession> {
+    const { current } = this;
+
+    if (current && Date.now() - current.fetchedAt < this.options.tokenCacheDuration) {
+      log.debug('Using cached anti-forgery token');
+      return current;
+    }
+
+    if (this.refreshing.has(TOKEN_FETCH)) {
+      log.debug('Waiting for in-flight token fetch');
+    }
+    return this.refreshing.run(TOKEN_FETCH, fetchSignal => this.refresh(log, fetchSignal), signal);
+  }
+
+  status(): TokenStatus {
+    const { current } = this;
+    return {
+      available: !!current || !this.lastFailure,
+      cached: !!current,
+      ageMs: current ? Date.now() - current.fetchedAt : undefined,
+      lastFailure: this.lastFailure,
+    };
+  }
+
+  // Drop a session the registry rejected. A no-op if it was already replaced.
+  invalidate(session: RegistrySession): void {
+    if (this.current === session) {
+      this.current = null;
+    }
+  }
+
+  // Cookie header for a POST within the session
+  cookieHeader(session: RegistrySession): Promise<string> {
+    return session.jar.getCookieString(session.url);
+  }
+
+  // Keep cookies the registry sets or rotates on later responses
+  async storeCookies(session: RegistrySession, response: RegistryResponse): Promise<void> {
+    for (const header of setCookieHeaders(response)) {
+      await session.jar.setCookie(header, session.url, { ignoreError: true });
+    }
+  }
+
+  private async refresh(log: Logger, signal: AbortSignal): Promise<RegistrySession> {
+    const stale = this.current;
+    const { maxRetries, retryDelay } = this.options;
+
+    // If USE_PROXY=false but no cache exists, use proxy temporarily to get token
+    const useProxy = this.options.useProxy || !stale;
+
+    log.debug('Fetching anti-forgery token', { useProxy, staleTokenCached: !!stale });
+
+    let lastFailure: SearchError = new TokenUnavailableError('No token fetch attempt was made');
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        const response = await this.client.fetchSearchPage({ useProxy, signal });
+
+        log.debug('Token page fetched', {
+          attempt,
+          statusCode: response.statusCode,
+          bytes: response.body.length,
+        });
+
+        if (response.statusCode === 200) {
+          const token = extractAntiForgeryToken(response.body);
+
+          if (token) {
+            const session: RegistrySession = {
+              token,
+              jar: new CookieJar(),
+              url: response.url,
+              fetchedAt: Date.now(),
+            };
+            await this.storeCookies(session, response);
+
+            log.info('Anti-forgery token refreshed', { attempt });
+            this.current = session;
+            this.lastFailure = undefined;
+            return session;
+          }
+
+          log.warn('Token page has no anti-forgery token', { attempt });
+          lastFailure = new TokenUnavailableError('Token page has no anti-forgery token');
+        } else {
+          log.warn('Token page returned unexpected status', {
+            attempt,
+            statusCode: response.statusCode,
+            // 403 usually means the registry blocks this IP; PROXY_URL works around it
+            hint: response.statusCode === 403 ? 'configure PROXY_URL' : undefined,
+          });
+          lastFailure = new UpstreamUnavailableError(
+            `Token page returned status ${response.statusCode}`
+          );
+
+          // Blocked or down: asking again right away only digs deeper. The breaker has
+          // counted the failure and decides when the registry is tried again.
+          if (isUpstreamFailureStatus(response.statusCode)) break;
+        }
+      } catch (error) {
+        // Nobody waits for the token any more; that says nothing about the registry
+        signal.throwIfAborted();
+        lastFailure = toUpstreamError(error, 'Token page request failed');
+
+        // The breaker already decided the registry is down; retrying would only wait longer
+        if (error instanceof CircuitOpenError) {
+          log.debug('Token fetch skipped, registry circuit is open');
+          break;
+        }
+
+        log.warn('Token page request failed', { attempt, retries: maxRetries, err: error });
+      }
+
+      if (attempt < maxRetries) {
+        // Exponential backoff
+        const delay = retryDelay * Math.pow(2, attempt - 1);
+        log.debug('Retrying token fetch', { delayMs: delay });
+        await sleep(delay, signal);
+      }
+    }
+
+    log.error('Could not obtain anti-forgery token', {
+      retries: maxRetries,
+      code: lastFailure.code,
+    });
+    this.lastFailure = lastFailure.code;
+
+    // An expired (but not rejected) session is better than none
+    if (stale && this.current === stale) {
+      log.warn('Falling back to stale cached token');
+      return stale;
+    }
+
+    throw lastFailure;
+  }
+}
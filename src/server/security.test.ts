@@ -0,0 +1,151 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, describe, expect, it } from 'vitest';
+import { TestServer, startTestServer } from './test-support.js';
+
+const ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), '../..');
+
+const ARMEN = { first_name: 'ԱՐՄԵՆ', last_name: 'ՊԵՏՐՈՍՅԱՆ' };
+const ALLOWED_ORIGIN = 'https://partner.example';
+
+let server: TestServer;
+
+afterEach(async () => {
+  await server?.close();
+});
+
+// Directive name to its sources
+function parseCsp(header: string | null): Map<string, string[]> {
+  return new Map(
+    (header || '').split(';').map(directive => {
+      const [name, ...sources] = directive.trim().split(/\s+/);
+      return [name, sources];
+    })
+  );
+}
+
+describe('Content-Security-Policy', () => {
+  it.each(['/', '/map.html', '/api/health'])('limits %s to our own origin', async path => {
+    server = await startTestServer();
+
+    const csp = parseCsp((await server.get(path)).headers.get('content-security-policy'));
+
+    expect(csp.get('connect-src')).toEqual(["'self'"]);
+    expect(csp.get('script-src')).toEqual(["'self'"]);
+    expect(csp.get('font-src')).toEqual(["'self'"]);
+    expect(csp.get('style-src')).toEqual(["'self'", "'unsafe-inline'"]);
+  });
+
+  it('allows OpenStreetMap tiles on the map page only', async () => {
+    server = await startTestServer();
+
+    const page = parseCsp((await server.get('/')).headers.get('content-security-policy'));
+    const map = parseCsp((await server.get('/map.html')).headers.get('content-security-policy'));
+
+    expect(page.get('img-src')).not.toContain('https://*.tile.openstreetmap.org');
+    expect(map.get('img-src')).toContain('https://*.tile.openstreetmap.org');
+  });
+});
+
+describe('self-hosted assets', () => {
+  const linked = (page: string) =>
+    [
+      ...readFileSync(path.join(ROOT, 'public', page), 'utf8').matchAll(
+        /(?:href|src)="(\/vendor\/[^"]+)" (?:rel="stylesheet" )?integrity="([^"]+)"/g
+      ),
+    ].map(([, asset, integrity]) => ({ asset, integrity }));
+
+  it.each(['index.html', 'map.html'])(
+    'serves every asset %s pins, matching its hash',
+    async page => {
+      server = await startTestServer();
+      const assets = linked(page);
+      expect(assets.some(({ asset }) => asset.startsWith('/vendor/fonts/'))).toBe(true);
+
+      for (const { asset, integrity } of assets) {
+        const response = await fetch(server.url + asset);
+        const digest = createHash('sha384')
+          .update(Buffer.from(await response.arrayBuffer()))
+          .digest('base64');
+
+        expect(response.status, asset).toBe(200);
+        expect(`sha384-${digest}`, asset).toBe(integrity);
+      }
+    }
+  );
+
+  it('serves the font files the stylesheets refer to', async () => {
+    server = await startTestServer();
+
+    const css = (await server.get<string>('/vendor/fonts/noto-sans-armenian/400.css')).body;
+    const file = css.match(/url\(\.\/(files\/[^)]+\.woff2)\)/)?.[1];
+    const response = await fetch(`${server.url}/vendor/fonts/noto-sans-armenian/${file}`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('font/woff2');
+  });
+});
+
+describe('CORS', () => {
+  const corsServer = () => startTestServer({ env: { CORS_ORIGINS: ALLOWED_ORIGIN } });
+
+  it('answers an allowed origin with its CORS headers', async () => {
+    server = await corsServer();
+
+    const response = await server.get('/api/health', { Origin: ALLOWED_ORIGIN });
+
+    expect(response.headers.get('access-control-allow-origin')).toBe(ALLOWED_ORIGIN);
+    expect(response.headers.get('vary')).toMatch(/Origin/);
+  });
+
+  it('sends no CORS headers to an origin not on the list', async () => {
+    server = await corsServer();
+
+    const response = await server.get('/api/health', { Origin: 'https://evil.example' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('ends preflights without allowing an origin not on the list', async () => {
+    server = await corsServer();
+    const preflight = (origin: string) =>
+      fetch(`${server.url}/api/search`, {
+        method: 'OPTIONS',
+        headers: { Origin: origin, 'Access-Control-Request-Method': 'POST' },
+      });
+
+    const allowed = await preflight(ALLOWED_ORIGIN);
+    const rejected = await preflight('https://evil.example');
+
+    expect(allowed.status).toBe(204);
+    expect(allowed.headers.get('access-control-allow-methods')).toContain('POST');
+    expect(rejected.status).toBe(204);
+    expect(rejected.headers.get('access-control-allow-origin')).toBeNull();
+    expect(server.fake.stats.searchRequests).toBe(0);
+  });
+
+  it('allows no cross-origin request when CORS_ORIGINS is unset', async () => {
+    server = await startTestServer();
+
+    const response = await server.get('/api/health', { Origin: ALLOWED_ORIGIN });
+
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+  });
+});
+
+describe('Cache-Control', () => {
+  it('marks search responses no-store, successful or not', async () => {
+    server = await startTestServer();
+
+    const found = await server.post('/api/search', ARMEN);
+    const invalid = await server.post('/api/search', {});
+
+    expect(found.status).toBe(200);
+    expect(found.headers.get('cache-control')).toBe('no-store');
+    expect(invalid.status).toBe(400);
+    expect(invalid.headers.get('cache-control')).toBe('no-store');
+  });
+});
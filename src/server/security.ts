@@ -0,0 +1,98 @@
+// HTTP hardening: security headers with a Content-Security-Policy that keeps the pages
+// from sending anything to third parties, and CORS limited to an explicit origin allowlist.
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { METRICS_CONSENT_HEADER } from '../shared/schema.js';
+
+type CspDirectives = Record<string, string[]>;
+
+// Scripts only from our origin (no inline script), and fetch/XHR only to our own API,
+// so search input and results cannot be posted anywhere else
+const PAGE_CSP: CspDirectives = {
+  'default-src': ["'self'"],
+  'script-src': ["'self'"],
+  // The pages still use <style> blocks and style attributes
+  'style-src': ["'self'", "'unsafe-inline'"],
+  'font-src': ["'self'"],
+  'img-src': ["'self'", 'data:'],
+  'connect-src': ["'self'"],
+  'object-src': ["'none'"],
+  'base-uri': ["'self'"],
+  'form-action': ["'self'"],
+  'frame-ancestors': ["'none'"],
+};
+
+// map.html additionally shows OpenStreetMap tiles around the polling station
+const MAP_PAGE_CSP: CspDirectives = {
+  ...PAGE_CSP,
+  'img-src': [...PAGE_CSP['img-src'], 'https://*.tile.openstreetmap.org'],
+};
+
+const MAP_PAGE_PATH = '/map.html';
+
+function serializeCsp(directives: CspDirectives): string {
+  return Object.entries(directives)
+    .map(([name, sources]) => `${name} ${sources.join(' ')}`)
+    .join('; ');
+}
+
+const PAGE_CSP_HEADER = serializeCsp(PAGE_CSP);
+const MAP_PAGE_CSP_HEADER = serializeCsp(MAP_PAGE_CSP);
+
+export interface SecurityHeadersOptions {
+  // Send Strict-Transport-Security; only meaningful behind HTTPS
+  hsts: boolean;
+}
+
+export function securityHeaders(options: SecurityHeadersOptions): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    res.set(
+      'Content-Security-Policy',
+      req.path === MAP_PAGE_PATH ? MAP_PAGE_CSP_HEADER : PAGE_CSP_HEADER
+    );
+    res.set('X-Content-Type-Options', 'nosniff');
+    res.set('X-Frame-Options', 'DENY');
+    res.set('Referrer-Policy', 'no-referrer');
+    // Geolocation only for the map's "route from here"
+    res.set('Permissions-Policy', 'camera=(), microphone=(), geolocation=(self), payment=()');
+    res.set('Cross-Origin-Resource-Policy', 'same-origin');
+
+    if (options.hsts) {
+      res.set('Strict-Transport-Security', 'max-age=15552000');
+    }
+
+    next();
+  };
+}
+
+// CORS for the API. Origins not on the list get no CORS headers, so browsers keep
+// their pages from reading our responses; same-origin requests need none.
+export function cors(allowedOrigins: string[]): RequestHandler {
+  const allowed = new Set(allowedOrigins);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.get('Origin');
+    res.vary('Origin');
+
+    if (origin && allowed.has(origin)) {
+      res.set('Access-Control-Allow-Origin', origin);
+      res.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.set('Access-Control-Allow-Headers', `Content-Type, ${METRICS_CONSENT_HEADER}`);
+      res.set('Access-Control-Expose-Headers', 'Retry-After, X-Request-Id');
+      res.set('Access-Control-Max-Age', '600');
+    }
+
+    // Preflights end here, allowed or not
+    if (req.method === 'OPTIONS' && origin) {
+      return res.sendStatus(204);
+    }
+
+    next();
+  };
+}
+
+// Responses carrying personal data must not be kept by browsers or shared caches
+export function noStore(req: Request, res: Response, next: NextFunction): void {
+  res.set('Cache-Control', 'no-store');
+  next();
+}
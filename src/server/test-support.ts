@@ -0,0 +1,82 @@
+// Test harness: the real Express app, configured with loadConfig(), talking to a fake
+// registry on a random local port. Nothing here reaches the network.
+
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { AppOptions, createApp } from './app.js';
+import { ConfigEnv, loadConfig } from './config.js';
+import { FakeRegistry, FakeRegistryOptions, startFakeRegistry } from './registry/fake-registry.js';
+
+// No pauses or backoff, and a rate limit the suite never hits unless it sets its own
+export const TEST_ENV: ConfigEnv = {
+  NODE_ENV: 'test',
+  PAGE_DELAY_MS: '0',
+  RETRY_DELAY_MS: '0',
+  RATE_LIMIT_MAX: '1000',
+};
+
+export interface ApiResponse<T = unknown> {
+  status: number;
+  headers: Headers;
+  body: T;
+}
+
+export interface TestServer {
+  url: string;
+  fake: FakeRegistry;
+  get<T = unknown>(path: string, headers?: Record<string, string>): Promise<ApiResponse<T>>;
+  post<T = unknown>(
+    path: string,
+    body: unknown,
+    options?: { headers?: Record<string, string>; signal?: AbortSignal }
+  ): Promise<ApiResponse<T>>;
+  close(): Promise<void>;
+}
+
+export interface TestServerOptions {
+  env?: ConfigEnv;
+  fake?: FakeRegistryOptions;
+  app?: Omit<Partial<AppOptions>, 'config'>;
+}
+
+async function toApiResponse<T>(response: Response): Promise<ApiResponse<T>> {
+  const text = await response.text();
+  return {
+    status: response.status,
+    headers: response.headers,
+    body: (text && response.headers.get('content-type')?.includes('json')
+      ? JSON.parse(text)
+      : text) as T,
+  };
+}
+
+export async function startTestServer(options: TestServerOptions = {}): Promise<TestServer> {
+  const fake = await startFakeRegistry(options.fake);
+  const config = loadConfig({ ...TEST_ENV, REGISTRY_URL: fake.url, ...options.env });
+  const app = createApp({ ...options.app, config });
+
+  const server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    fake,
+    get: async (path, headers = {}) => toApiResponse(await fetch(url + path, { headers })),
+    post: async (path, body, { headers = {}, signal } = {}) =>
+      toApiResponse(
+        await fetch(url + path, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify(body),
+          signal,
+        })
+      ),
+    close: async () => {
+      server.closeAllConnections();
+      await new Promise<void>(done => server.close(() => done()));
+      await fake.close();
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SearchResponse } from '../shared/schema.js';
+import { RateLimitedError } from './errors.js';
+import { TestServer, startTestServer } from './test-support.js';
+import { UpstreamLimiter, UpstreamLimitStats } from './throttle.js';
+
+// A task that runs until the test lets it finish
+function pending() {
+  let finish!: () => void;
+  const done = new Promise<void>(resolve => (finish = resolve));
+  return { task: () => done, finish };
+}
+
+describe('UpstreamLimiter', () => {
+  it('queues tasks beyond maxConcurrent and runs them as slots free up', async () => {
+    const limiter = new UpstreamLimiter({ maxConcurrent: 1, maxQueue: 2 });
+    const first = pending();
+    const second = pending();
+
+    const running = limiter.run(first.task);
+    const queued = limiter.run(second.task);
+    expect(limiter.stats()).toEqual({ active: 1, queued: 1, maxConcurrent: 1, maxQueue: 2 });
+
+    first.finish();
+    await running;
+    expect(limiter.stats()).toMatchObject({ active: 1, queued: 0 });
+
+    second.finish();
+    await queued;
+    expect(limiter.stats()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('rejects with RateLimitedError and Retry-After once the queue is full', async () => {
+    const limiter = new UpstreamLimiter({ maxConcurrent: 1, maxQueue: 1, retryAfter: 7 });
+    const blocker = pending();
+    const task = vi.fn(async () => 'ran');
+
+    const running = limiter.run(blocker.task);
+    const queued = limiter.run(task);
+    const rejected = limiter.run(task);
+
+    await expect(rejected).rejects.toBeInstanceOf(RateLimitedError);
+    await expect(rejected).rejects.toMatchObject({ retryAfter: 7 });
+    expect(limiter.stats()).toMatchObject({ active: 1, queued: 1 });
+
+    blocker.finish();
+    await running;
+    expect(await queued).toBe('ran');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('takes a caller that gives up out of the queue', async () => {
+    const limiter = new UpstreamLimiter({ maxConcurrent: 1, maxQueue: 1 });
+    const blocker = pending();
+    const caller = new AbortController();
+
+    const running = limiter.run(blocker.task);
+    const queued = limiter.run(async () => 'ran', caller.signal);
+    caller.abort(new Error('gone'));
+
+    await expect(queued).rejects.toThrow('gone');
+    expect(limiter.stats()).toMatchObject({ active: 1, queued: 0 });
+
+    blocker.finish();
+    await running;
+    expect(limiter.stats()).toMatchObject({ active: 0, queued: 0 });
+  });
+});
+
+describe('/api/search upstream limit', () => {
+  // Three different searches, so coalescing never joins them
+  const SEARCHES = [
+    { first_name: 'ԱՐՄԵՆ', last_name: 'ՊԵՏՐՈՍՅԱՆ' },
+    { first_name: 'ԱՆԻ', last_name: 'ՊԵՏՐՈՍՅԱՆ', region: 'ԱՐՄԱՎԻՐ' },
+    { first_name: 'ԱՐՄԵՆ', last_name: 'ՊԵՏՐՈՍՅԱՆ', region: 'ԱՐՄԱՎԻՐ' },
+  ];
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  const upstream = async () =>
+    (await server.get<{ upstream: UpstreamLimitStats }>('/api/health')).body.upstream;
+
+  it('reports the queue depth in /api/health and rejects searches past the queue', async () => {
+    server = await startTestServer({
+      env: { UPSTREAM_MAX_CONCURRENT: '1', UPSTREAM_MAX_QUEUE: '1' },
+    });
+    server.fake.behavior.responseDelayMs = 300;
+
+    const first = server.post<SearchResponse>('/api/search', SEARCHES[0]);
+    await vi.waitFor(async () => expect((await upstream()).active).toBe(1));
+    const second = server.post<SearchResponse>('/api/search', SEARCHES[1]);
+    await vi.waitFor(async () =>
+      expect(await upstream()).toEqual({ active: 1, queued: 1, maxConcurrent: 1, maxQueue: 1 })
+    );
+
+    const rejected = await server.post<SearchResponse>('/api/search', SEARCHES[2]);
+
+    expect(rejected.status).toBe(429);
+    expect(rejected.body.code).toBe('RATE_LIMITED');
+    expect(Number(rejected.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect((await first).status).toBe(200);
+    expect((await second).status).toBe(200);
+    expect(await upstream()).toMatchObject({ active: 0, queued: 0 });
+    expect(server.fake.stats.searchRequests).toBe(2);
+  });
+});
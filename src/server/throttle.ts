@@ -0,0 +1,162 @@
+// Throttling in front of the registry: a per-client request budget and a global
+// limit on how many searches may run upstream at the same time.
+
+import { RateLimitedError } from './errors.js';
+
+export interface ClientRateLimitOptions {
+  // Length of one counting window
+  windowMs: number;
+  // Searches allowed per client per window
+  max: number;
+}
+
+export const DEFAULT_CLIENT_RATE_LIMIT_OPTIONS: ClientRateLimitOptions = {
+  windowMs: 60 * 1000,
+  max: 10,
+};
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the client's window resets
+  retryAfter: number;
+}
+
+// Fixed-window counter keyed by client (the request IP). Entries live in memory only
+// and are dropped once their window has passed.
+export class ClientRateLimiter {
+  private readonly options: ClientRateLimitOptions;
+  private readonly windows = new Map<string, { count: number; resetAt: number }>();
+  private nextPruneAt = 0;
+
+  constructor(options: Partial<ClientRateLimitOptions> = {}) {
+    this.options = { ...DEFAULT_CLIENT_RATE_LIMIT_OPTIONS, ...options };
+  }
+
+  // Count one request for the client and say whether it may proceed
+  consume(key: string, now = Date.now()): RateLimitDecision {
+    this.prune(now);
+
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.options.windowMs };
+      this.windows.set(key, window);
+    }
+
+    const retryAfter = Math.max(1, Math.ceil((window.resetAt - now) / 1000));
+
+    if (window.count >= this.options.max) {
+      return { allowed: false, remaining: 0, retryAfter };
+    }
+
+    window.count++;
+    return { allowed: true, remaining: this.options.max - window.count, retryAfter };
+  }
+
+  get size(): number {
+    return this.windows.size;
+  }
+
+  private prune(now: number): void {
+    if (now < this.nextPruneAt) return;
+
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+    this.nextPruneAt = now + this.options.windowMs;
+  }
+}
+
+export interface UpstreamLimitOptions {
+  // Searches allowed to talk to the registry at once
+  maxConcurrent: number;
+  // Searches allowed to wait for a free slot; beyond that callers are rejected
+  maxQueue: number;
+  // Retry-After (seconds) sent when the queue is full
+  retryAfter: number;
+}
+
+export const DEFAULT_UPSTREAM_LIMIT_OPTIONS: UpstreamLimitOptions = {
+  maxConcurrent: 2,
+  maxQueue: 20,
+  retryAfter: 10,
+};
+
+export interface UpstreamLimitStats {
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+  maxQueue: number;
+}
+
+// Counting semaphore with a bounded FIFO queue
+export class UpstreamLimiter {
+  private readonly options: UpstreamLimitOptions;
+  private active = 0;
+  private readonly queue: Array<() => void> = [];
+
+  constructor(options: Partial<UpstreamLimitOptions> = {}) {
+    this.options = { ...DEFAULT_UPSTREAM_LIMIT_OPTIONS, ...options };
+  }
+
+  // Run task once a slot is free; rejects with RateLimitedError when the queue is full,
+  // or with signal.reason if the caller gives up while queued
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  stats(): UpstreamLimitStats {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      maxConcurrent: this.options.maxConcurrent,
+      maxQueue: this.options.maxQueue,
+    };
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    if (this.active < this.options.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    if (this.queue.length >= this.options.maxQueue) {
+      return Promise.reject(
+        new RateLimitedError('Upstream search queue is full', this.options.retryAfter)
+      );
+    }
+
+    // The slot is handed over directly by release(), so active stays unchanged
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.queue.splice(this.queue.indexOf(waiter), 1);
+        reject(signal?.reason);
+      };
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      this.queue.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
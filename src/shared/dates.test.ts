@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { formatDate, isAfter, parseDate, today } from './dates.js';
+import { validateSearchRequest } from './schema.js';
+
+describe('parseDate', () => {
+  it.each([
+    ['22/01/2000', '22/01/2000'],
+    ['22.01.2000', '22/01/2000'],
+    ['22-1-2000', '22/01/2000'],
+    ['2000-01-22', '22/01/2000'],
+    ['29/02/2000', '29/02/2000'],
+  ])('reads %s as %s', (text, expected) => {
+    const date = parseDate(text);
+
+    expect(date && formatDate(date)).toBe(expected);
+  });
+
+  it.each([
+    '',
+    '2000',
+    '31/02/2000',
+    '29/02/1900',
+    '00/01/2000',
+    '01/13/2000',
+    '01/01/1899',
+    '2000-01-22T00:00:00Z',
+    '2000-01-22T10:30',
+  ])('rejects %j', text => {
+    expect(parseDate(text)).toBeNull();
+  });
+});
+
+describe('today and isAfter', () => {
+  it('takes the local calendar date', () => {
+    expect(today(new Date(2026, 0, 31, 23, 59))).toEqual({ year: 2026, month: 1, day: 31 });
+  });
+
+  it('orders dates by year, then month, then day', () => {
+    const date = { year: 2026, month: 3, day: 10 };
+
+    expect(isAfter({ year: 2026, month: 3, day: 11 }, date)).toBe(true);
+    expect(isAfter({ year: 2026, month: 4, day: 1 }, date)).toBe(true);
+    expect(isAfter({ year: 2025, month: 12, day: 31 }, date)).toBe(false);
+    expect(isAfter(date, date)).toBe(false);
+  });
+});
+
+describe('birth_date validation', () => {
+  const NAME = { first_name: 'ԱՐՄԵՆ', last_name: 'ՊԵՏՐՈՍՅԱՆ' };
+  const errorsFor = (birth_date: string) => {
+    const result = validateSearchRequest({ ...NAME, birth_date }, 'en');
+    return result.ok ? [] : result.errors;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 9, 19, 12));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each(['19/10/2026', '2026-10-19', '11/03/1990'])('accepts %s', birthDate => {
+    expect(errorsFor(birthDate)).toEqual([]);
+  });
+
+  it.each(['20/10/2026', '2026-10-20', '01/01/2090'])('rejects %s as in the future', birthDate => {
+    expect(errorsFor(birthDate)).toEqual([
+      { field: 'birth_date', message: 'Cannot be in the future' },
+    ]);
+  });
+
+  it.each(['31/02/2000', '1990-03-11T00:00:00Z'])('reports %s as malformed', birthDate => {
+    expect(errorsFor(birthDate)).toEqual([
+      { field: 'birth_date', message: 'Not a valid date. Use DD/MM/YYYY' },
+    ]);
+  });
+});
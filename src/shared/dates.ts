@@ -0,0 +1,78 @@
+// Calendar dates as people and browsers type them. Birth dates arrive as the value of an
+// <input type="date"> (2000-01-22) or as typed text (22/01/2000, 22.01.2000, 22-01-2000);
+// anything else, a time included, is rejected. The registry wants YYYY-MM-DD and shows
+// DD/MM/YYYY. Impossible dates such as 31/02/2000 are rejected, never rounded. parseDate
+// only checks that a date exists; whether it may lie in the future is up to the caller.
+
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+// Years a voter's birth date can fall in
+const MIN_YEAR = 1900;
+const MAX_YEAR = 2100;
+
+// YYYY-MM-DD, the value of a date input
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+// Day first, with /, . or - between the parts
+const DAY_FIRST_DATE = /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/;
+
+function daysInMonth(year: number, month: number): number {
+  if (month === 2) {
+    const leap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+    return leap ? 29 : 28;
+  }
+  return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+// The date a text stands for, or null when it is malformed or not a real date
+export function parseDate(text: string | undefined): CalendarDate | null {
+  const value = text?.trim() || '';
+  const iso = value.match(ISO_DATE);
+  const dayFirst = iso ? null : value.match(DAY_FIRST_DATE);
+
+  let date: CalendarDate;
+  if (iso) {
+    date = { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+  } else if (dayFirst) {
+    date = { year: Number(dayFirst[3]), month: Number(dayFirst[2]), day: Number(dayFirst[1]) };
+  } else {
+    return null;
+  }
+
+  const valid =
+    date.year >= MIN_YEAR &&
+    date.year <= MAX_YEAR &&
+    date.month >= 1 &&
+    date.month <= 12 &&
+    date.day >= 1 &&
+    date.day <= daysInMonth(date.year, date.month);
+  return valid ? date : null;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// DD/MM/YYYY, as the registry shows birth dates
+export function formatDate(date: CalendarDate): string {
+  return `${pad(date.day)}/${pad(date.month)}/${date.year}`;
+}
+
+// YYYY-MM-DD, as the registry's search form and <input type="date"> expect
+export function toIsoDate(date: CalendarDate): string {
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+export function sameDate(a: CalendarDate, b: CalendarDate): boolean {
+  return a.year === b.year && a.month === b.month && a.day === b.day;
+}
+
+export function isAfter(a: CalendarDate, b: CalendarDate): boolean {
+  return toIsoDate(a) > toIsoDate(b);
+}
+
+// The local calendar date of a moment, by default now
+export function today(now: Date = new Date()): CalendarDate {
+  return { year: now.getFullYear(), month: now.getMonth() + 1, day: now.getDate() };
+}
@@ -0,0 +1,62 @@
+import { readFileSync, readdirSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from 'vitest';
+import { en } from './locales/en.js';
+import { hy } from './locales/hy.js';
+import { ru } from './locales/ru.js';
+import { ERROR_CODES } from './schema.js';
+
+const ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), '../..');
+
+const CATALOGS: Record<string, Record<string, string>> = { hy, en, ru };
+
+// The type-check only sees keys written as literals; these are read or built at runtime
+function htmlKeys(): Array<[string, string]> {
+  const publicDir = path.join(ROOT, 'public');
+  return readdirSync(publicDir)
+    .filter(file => file.endsWith('.html'))
+    .flatMap(file =>
+      [
+        ...readFileSync(path.join(publicDir, file), 'utf8').matchAll(
+          /\sdata-i18n(?:-placeholder|-aria-label)?="([^"]*)"/g
+        ),
+      ].map(([, key]): [string, string] => [file, key])
+    );
+}
+
+function placeholders(message: string): string[] {
+  return [...message.matchAll(/\{(\w+)\}/g)].map(([, name]) => name).sort();
+}
+
+describe('message catalogs', () => {
+  const keys = htmlKeys();
+
+  it('finds the marked elements of the pages', () => {
+    expect(new Set(keys.map(([file]) => file))).toEqual(new Set(['index.html', 'map.html']));
+  });
+
+  it.each(Object.keys(CATALOGS))('%s has every data-i18n key of the pages', language => {
+    const missing = keys.filter(([, key]) => !CATALOGS[language][key]);
+
+    expect(missing).toEqual([]);
+  });
+
+  it.each(Object.keys(CATALOGS))('%s has a message for every error code', language => {
+    const missing = ERROR_CODES.map(code => `error.${code}`).filter(
+      key => !CATALOGS[language][key]
+    );
+
+    expect(missing).toEqual([]);
+  });
+
+  it.each(['en', 'ru'])('%s has the keys and placeholders of hy', language => {
+    const catalog = CATALOGS[language];
+
+    expect(Object.keys(catalog).sort()).toEqual(Object.keys(hy).sort());
+    for (const [key, message] of Object.entries(hy)) {
+      expect(catalog[key].trim(), key).not.toBe('');
+      expect(placeholders(catalog[key]), key).toEqual(placeholders(message));
+    }
+  });
+});
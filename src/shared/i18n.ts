@@ -0,0 +1,59 @@
+// Message catalogs shared by the server (error responses, localized from Accept-Language)
+// and the client (page text, switchable in the header). Armenian defines the keys; the
+// other catalogs are typed Record<MessageKey, string>, so a key missing from any of them
+// fails `npm run type-check`.
+
+import { hy } from './locales/hy.js';
+import { en } from './locales/en.js';
+import { ru } from './locales/ru.js';
+
+export const LANGUAGES = ['hy', 'en', 'ru'] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = 'hy';
+
+export type MessageKey = keyof typeof hy;
+
+export type Catalog = Record<MessageKey, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Language, Catalog> = { hy, en, ru };
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && (LANGUAGES as readonly string[]).includes(value);
+}
+
+// Look up a message and fill in its {placeholders}
+export function translate(language: Language, key: MessageKey, params?: MessageParams): string {
+  const message = CATALOGS[language][key];
+  if (!params) return message;
+
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+// Best supported language of an Accept-Language header ("ru-RU,ru;q=0.9,en;q=0.8");
+// ties keep the header's order
+export function negotiateLanguage(acceptLanguage: string | undefined): Language {
+  if (!acceptLanguage) return DEFAULT_LANGUAGE;
+
+  const ranked = acceptLanguage
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...options] = part.trim().split(';');
+      const q = options.map(option => option.trim()).find(option => option.startsWith('q='));
+      const quality = q ? Number(q.slice(2)) : 1;
+      return {
+        language: tag.trim().toLowerCase().split('-')[0],
+        quality: Number.isFinite(quality) ? quality : 0,
+        index,
+      };
+    })
+    .filter(entry => entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  return ranked.map(entry => entry.language).find(isLanguage) || DEFAULT_LANGUAGE;
+}
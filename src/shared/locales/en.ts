@@ -0,0 +1,113 @@
+import type { Catalog } from '../i18n.js';
+
+export const en: Catalog = {
+  'app.title': 'AIXREG - Armenian Election Registry',
+  'app.subtitle': 'Registry Search · Secure lookup',
+  'app.language': 'Language',
+
+  'form.title': 'Search',
+  'form.instructionsLabel': 'ℹ️ Note:',
+  'form.instructions': 'First and last name are required.',
+  'form.selectRegion': 'Select region',
+  'form.unknownCommunity': 'Choose a community of this region from the list',
+  'form.search': '🔍 Search',
+  'form.clear': '↻ Clear',
+  'form.loading': 'Searching...',
+  'form.loadingHint': 'Querying the registry...',
+
+  'section.location': 'Location (optional)',
+  'section.filters': 'Additional filters (optional)',
+
+  'field.firstName': 'First name',
+  'field.lastName': 'Last name',
+  'field.middleName': 'Patronymic',
+  'field.birthDate': 'Birth date',
+  'field.street': 'Street',
+  'field.building': 'Building',
+  'field.apartment': 'Apartment',
+  'field.district': 'District',
+  'field.region': 'Region',
+  'field.community': 'Community',
+  'field.optional': '(optional)',
+
+  'help.required': 'Required',
+  'help.optional': 'Optional',
+  'help.birthDate': 'Optional, narrows the search',
+  'help.region': 'Default: ԵՐԵՎԱՆ',
+  'help.community': 'Community of the selected region, optional',
+
+  'placeholder.firstName': 'e.g. Գրիգոր or Grigor',
+  'placeholder.lastName': 'e.g. Գրիգորյան or Grigoryan',
+  'placeholder.middleName': 'e.g. Գրիգորի',
+  'placeholder.street': 'e.g. Արշակունյաց',
+  'placeholder.community': 'Type or pick',
+
+  'results.title': '📋 Search Results',
+  'results.count': '✓ Page {page}: {count} results',
+  'results.none': 'Page {page}: no results',
+  'results.previous': '← Previous',
+  'results.next': 'Next →',
+  'results.birthDate': 'Birth date:',
+  'results.regionCommunity': 'Region/Community:',
+  'results.address': 'Address:',
+  'results.district': 'Electoral district:',
+  'results.whereYouVote': 'Where you vote:',
+  'results.masked': '🔒 hidden',
+  'results.maskedHint':
+    '🔒 The full address is shown only when your birth date is included in the search',
+  'results.trySpelling': 'Try another spelling?',
+  'results.retryAfter': '({seconds} s)',
+  'results.openMap': 'Press Enter to open the polling station on the map',
+
+  'error.VALIDATION': 'Please check the highlighted fields',
+  'error.UPSTREAM_UNAVAILABLE': 'The registry is temporarily unavailable. Please try again later',
+  'error.TOKEN_UNAVAILABLE': 'Could not open a session with the registry. Please try again shortly',
+  'error.PARSE_FAILED': 'The registry page could not be read; its format may have changed',
+  'error.TIMEOUT': 'The registry took too long to respond. Try narrowing your search',
+  'error.RATE_LIMITED': 'Too many searches right now. Please wait a moment and try again',
+  'error.SHUTTING_DOWN': 'The service is restarting. Please try again in a few seconds',
+  'error.INTERNAL': 'Search failed',
+  'error.notFound': 'Endpoint not found',
+  'error.network': 'Error',
+  'error.popupBlocked': '⚠️ Failed to open the map. Please allow popups in your browser.',
+
+  'validation.notObject': 'Request body must be a JSON object',
+  'validation.malformedJson': 'Malformed JSON',
+  'validation.unknownField': 'Unknown field',
+  'validation.required': 'This field is required',
+  'validation.notString': 'Must be a string',
+  'validation.minLength': 'Must be at least {min} characters',
+  'validation.maxLength': 'Must be at most {max} characters',
+  'validation.page': 'Must be a whole number from 1 to {max}',
+  'validation.unknownRegion': 'Unknown region',
+  'validation.notCommunityOf': 'Not a community of {region}',
+  'validation.date': 'Not a valid date. Use DD/MM/YYYY',
+  'validation.futureDate': 'Cannot be in the future',
+  'validation.needsBirthDate': 'Can only be searched together with a birth date',
+
+  'precinct.badId': 'Expected a precinct like 9-35',
+  'precinct.notFound': 'Polling station not found',
+  'precinct.noDataset': 'Polling stations have not been published here yet',
+
+  'consent.title': 'Anonymous usage statistics',
+  'consent.body':
+    'May we count total searches per region, success rates and response times? No names, birth dates, addresses or IP addresses are stored.',
+  'consent.allow': 'Allow',
+  'consent.decline': 'Decline',
+
+  'map.station': 'Polling station',
+  'map.precinct': 'Precinct {id}',
+  'map.loading': 'Loading…',
+  'map.route': '📍 Route from here',
+  'map.close': '✕ Close',
+  'map.privacy': 'Your home address is never sent to map services',
+  'map.noPrecinct': 'No precinct given',
+  'map.notInDataset': 'This polling station is not in our dataset yet',
+  'map.noDataset': 'Polling station addresses are not available yet',
+  'map.noLocation': 'No map position for this station',
+  'map.noGeolocation': 'Your browser cannot share its location',
+  'map.locationUnavailable': 'Location is unavailable or was not allowed',
+  'map.youAreHere': 'You are here',
+  'map.directions': 'Walking directions (OpenStreetMap)',
+  'map.distance': '≈ {km} km in a straight line',
+};
@@ -0,0 +1,113 @@
+// Armenian, the default language. Its keys are the reference every other catalog must
+// match; see src/shared/i18n.ts.
+
+export const hy = {
+  'app.title': 'AIXREG - Հայաստանի ընտրողների ռեգիստր',
+  'app.subtitle': 'Որոնում ռեգիստրում · Անվտանգ հարցում',
+  'app.language': 'Լեզու',
+
+  'form.title': 'Որոնել',
+  'form.instructionsLabel': 'ℹ️ Հրահանգ:',
+  'form.instructions': 'Անունն և Ազգանունն պարտադիր են։',
+  'form.selectRegion': 'Ընտրեք մարզը',
+  'form.unknownCommunity': 'Ընտրեք այս մարզի համայնքը ցանկից',
+  'form.search': '🔍 Որոնել',
+  'form.clear': '↻ Մաքրել',
+  'form.loading': 'Դիմում...',
+  'form.loadingHint': 'Մուտքագրում ենք համակարգ...',
+
+  'section.location': 'Տեղանիշ (Ընտրովի)',
+  'section.filters': 'Լրացուցիչ Ֆիլտրեր (Ընտրովի)',
+
+  'field.firstName': 'Անուն',
+  'field.lastName': 'Ազգանուն',
+  'field.middleName': 'Հայրանուն',
+  'field.birthDate': 'Ծնունդի ամսաթիվ',
+  'field.street': 'Փողոց',
+  'field.building': 'Տուն',
+  'field.apartment': 'Բնակ',
+  'field.district': 'Մեկ.',
+  'field.region': 'Մարզ',
+  'field.community': 'Համայնք',
+  'field.optional': '(ընտրովի)',
+
+  'help.required': 'Պարտադիր',
+  'help.optional': 'Ընտրովի',
+  'help.birthDate': 'Ընտրովի, ճշգրտում է որոնումը',
+  'help.region': 'Լռելյայն՝ ԵՐԵՎԱՆ',
+  'help.community': 'Ընտրված մարզի համայնք, ընտրովի',
+
+  'placeholder.firstName': 'Օրինակ: Գրիգոր',
+  'placeholder.lastName': 'Օրինակ: Գրիգորյան',
+  'placeholder.middleName': 'Օրինակ: Գրիգորի',
+  'placeholder.street': 'Օրինակ: Արշակունյաց',
+  'placeholder.community': 'Սկսեք գրել կամ ընտրեք',
+
+  'results.title': '📋 Որոնման Արդյունքներ',
+  'results.count': '✓ Էջ {page}՝ {count} արդյունք',
+  'results.none': 'Էջ {page}՝ արդյունքներ չկան',
+  'results.previous': '← Նախորդ',
+  'results.next': 'Հաջորդ →',
+  'results.birthDate': 'Ծննդյան Օր:',
+  'results.regionCommunity': 'Մարզ/Համայնք:',
+  'results.address': 'Հասցե:',
+  'results.district': 'Ընտրական Մեկ.:',
+  'results.whereYouVote': 'Որտեղ քվեարկել:',
+  'results.masked': '🔒 թաքցված',
+  'results.maskedHint': '🔒 Լրիվ հասցեն երևում է միայն ծննդյան ճիշտ ամսաթիվը նշելու դեպքում',
+  'results.trySpelling': 'Փորձե՞լ այլ ուղղագրությամբ',
+  'results.retryAfter': '({seconds} վ)',
+  'results.openMap': 'Սեղմեք Enter՝ ընտրատեղամասը քարտեզի վրա բացելու համար',
+
+  'error.VALIDATION': 'Ստուգեք լրացված դաշտերը',
+  'error.UPSTREAM_UNAVAILABLE': 'Ռեգիստրը ժամանակավորապես անհասանելի է։ Փորձեք ավելի ուշ',
+  'error.TOKEN_UNAVAILABLE': 'Չհաջողվեց կապ հաստատել ռեգիստրի հետ։ Փորձեք մի փոքր ուշ',
+  'error.PARSE_FAILED': 'Ռեգիստրի պատասխանը հնարավոր չէ կարդալ, հնարավոր է՝ կայքի ձևաչափը փոխվել է',
+  'error.TIMEOUT': 'Ռեգիստրը ժամանակին չպատասխանեց։ Փորձեք ճշգրտել որոնումը',
+  'error.RATE_LIMITED': 'Չափազանց շատ որոնումներ։ Սպասեք մի քանի վայրկյան',
+  'error.SHUTTING_DOWN': 'Ծառայությունը վերագործարկվում է։ Փորձեք մի քանի վայրկյանից',
+  'error.INTERNAL': 'Որոնումը ձախողվել է',
+  'error.notFound': 'Էջը չի գտնվել',
+  'error.network': 'Սխալ',
+  'error.popupBlocked': '⚠️ Չհաջողվեց բացել քարտեզը։ Թույլատրեք թռուցիկ պատուհանները։',
+
+  'validation.notObject': 'Սխալ հարցում',
+  'validation.malformedJson': 'Անվավեր JSON',
+  'validation.unknownField': 'Անհայտ դաշտ',
+  'validation.required': 'Պարտադիր դաշտ',
+  'validation.notString': 'Պետք է լինի տեքստ',
+  'validation.minLength': 'Առնվազն {min} սիմվոլ',
+  'validation.maxLength': 'Առավելագույնը {max} սիմվոլ',
+  'validation.page': 'Պետք է լինի 1-ից {max} ամբողջ թիվ',
+  'validation.unknownRegion': 'Անհայտ մարզ',
+  'validation.notCommunityOf': '{region} մարզի համայնք չէ',
+  'validation.date': 'Անվավեր ամսաթիվ։ Գրեք ՕՕ/ԱԱ/ՏՏՏՏ ձևաչափով',
+  'validation.futureDate': 'Չի կարող լինել ապագայում',
+  'validation.needsBirthDate': 'Կարելի է որոնել միայն ծննդյան ամսաթվի հետ',
+
+  'precinct.badId': 'Սպասվում է 9-35 տեսքով',
+  'precinct.notFound': 'Տեղամասը չի գտնվել',
+  'precinct.noDataset': 'Տեղամասերի հասցեները դեռ հրապարակված չեն',
+
+  'consent.title': 'Անանուն վիճակագրություն',
+  'consent.body':
+    'Կարո՞ղ ենք հաշվել որոնումների ընդհանուր քանակը ըստ մարզի, հաջողության տոկոսը և արագությունը։ Անուններ, ծննդյան ամսաթվեր, հասցեներ կամ IP հասցեներ չեն պահվում։',
+  'consent.allow': 'Այո',
+  'consent.decline': 'Ոչ',
+
+  'map.station': 'Ընտրատեղամաս',
+  'map.precinct': 'Ընտրատեղամաս {id}',
+  'map.loading': 'Բեռնվում է…',
+  'map.route': '📍 Երթուղի',
+  'map.close': '✕ Փակել',
+  'map.privacy': 'Ձեր հասցեն չի ուղարկվում քարտեզի ծառայություններին',
+  'map.noPrecinct': 'Տեղամասը նշված չէ',
+  'map.notInDataset': 'Այս տեղամասի հասցեն դեռ չունենք',
+  'map.noDataset': 'Տեղամասերի հասցեները դեռ հասանելի չեն',
+  'map.noLocation': 'Քարտեզի վրա նշված չէ',
+  'map.noGeolocation': 'Ձեր բրաուզերը տեղորոշում չի աջակցում',
+  'map.locationUnavailable': 'Տեղորոշումը հասանելի չէ',
+  'map.youAreHere': 'Դուք այստեղ եք',
+  'map.directions': 'Քայլելու երթուղի (OpenStreetMap)',
+  'map.distance': '≈ {km} կմ ուղիղ գծով',
+};
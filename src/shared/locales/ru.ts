@@ -0,0 +1,112 @@
+import type { Catalog } from '../i18n.js';
+
+export const ru: Catalog = {
+  'app.title': 'AIXREG - Реестр избирателей Армении',
+  'app.subtitle': 'Поиск в реестре · Безопасный запрос',
+  'app.language': 'Язык',
+
+  'form.title': 'Поиск',
+  'form.instructionsLabel': 'ℹ️ Примечание:',
+  'form.instructions': 'Имя и фамилия обязательны.',
+  'form.selectRegion': 'Выберите регион',
+  'form.unknownCommunity': 'Выберите общину этого региона из списка',
+  'form.search': '🔍 Найти',
+  'form.clear': '↻ Очистить',
+  'form.loading': 'Поиск...',
+  'form.loadingHint': 'Обращаемся к реестру...',
+
+  'section.location': 'Местоположение (необязательно)',
+  'section.filters': 'Дополнительные фильтры (необязательно)',
+
+  'field.firstName': 'Имя',
+  'field.lastName': 'Фамилия',
+  'field.middleName': 'Отчество',
+  'field.birthDate': 'Дата рождения',
+  'field.street': 'Улица',
+  'field.building': 'Дом',
+  'field.apartment': 'Квартира',
+  'field.district': 'Участок',
+  'field.region': 'Регион',
+  'field.community': 'Община',
+  'field.optional': '(необязательно)',
+
+  'help.required': 'Обязательно',
+  'help.optional': 'Необязательно',
+  'help.birthDate': 'Необязательно, уточняет поиск',
+  'help.region': 'По умолчанию: ԵՐԵՎԱՆ',
+  'help.community': 'Община выбранного региона, необязательно',
+
+  'placeholder.firstName': 'Например: Գրիգոր или Григор',
+  'placeholder.lastName': 'Например: Գրիգորյան или Григорян',
+  'placeholder.middleName': 'Например: Գրիգորի',
+  'placeholder.street': 'Например: Արշակունյաց',
+  'placeholder.community': 'Начните вводить или выберите',
+
+  'results.title': '📋 Результаты поиска',
+  'results.count': '✓ Страница {page}: найдено {count}',
+  'results.none': 'Страница {page}: ничего не найдено',
+  'results.previous': '← Назад',
+  'results.next': 'Далее →',
+  'results.birthDate': 'Дата рождения:',
+  'results.regionCommunity': 'Регион/Община:',
+  'results.address': 'Адрес:',
+  'results.district': 'Избирательный участок:',
+  'results.whereYouVote': 'Где голосовать:',
+  'results.masked': '🔒 скрыто',
+  'results.maskedHint': '🔒 Полный адрес показывается, только если в поиске указана дата рождения',
+  'results.trySpelling': 'Попробовать другое написание?',
+  'results.retryAfter': '({seconds} с)',
+  'results.openMap': 'Нажмите Enter, чтобы открыть участок на карте',
+
+  'error.VALIDATION': 'Проверьте заполненные поля',
+  'error.UPSTREAM_UNAVAILABLE': 'Реестр временно недоступен. Попробуйте позже',
+  'error.TOKEN_UNAVAILABLE': 'Не удалось открыть сессию с реестром. Попробуйте чуть позже',
+  'error.PARSE_FAILED': 'Не удалось прочитать ответ реестра; возможно, изменился формат сайта',
+  'error.TIMEOUT': 'Реестр не ответил вовремя. Попробуйте уточнить поиск',
+  'error.RATE_LIMITED': 'Слишком много запросов. Подождите немного и попробуйте снова',
+  'error.SHUTTING_DOWN': 'Сервис перезапускается. Попробуйте через несколько секунд',
+  'error.INTERNAL': 'Поиск не удался',
+  'error.notFound': 'Страница не найдена',
+  'error.network': 'Ошибка',
+  'error.popupBlocked': '⚠️ Не удалось открыть карту. Разрешите всплывающие окна в браузере.',
+
+  'validation.notObject': 'Тело запроса должно быть JSON-объектом',
+  'validation.malformedJson': 'Некорректный JSON',
+  'validation.unknownField': 'Неизвестное поле',
+  'validation.required': 'Обязательное поле',
+  'validation.notString': 'Должно быть строкой',
+  'validation.minLength': 'Не менее {min} символов',
+  'validation.maxLength': 'Не более {max} символов',
+  'validation.page': 'Должно быть целым числом от 1 до {max}',
+  'validation.unknownRegion': 'Неизвестный регион',
+  'validation.notCommunityOf': 'Не община региона {region}',
+  'validation.date': 'Некорректная дата. Используйте ДД/ММ/ГГГГ',
+  'validation.futureDate': 'Не может быть в будущем',
+  'validation.needsBirthDate': 'Можно искать только вместе с датой рождения',
+
+  'precinct.badId': 'Ожидается участок вида 9-35',
+  'precinct.notFound': 'Избирательный участок не найден',
+  'precinct.noDataset': 'Адреса участков здесь пока не опубликованы',
+
+  'consent.title': 'Анонимная статистика',
+  'consent.body':
+    'Можно ли нам считать общее число поисков по регионам, долю успешных и время ответа? Имена, даты рождения, адреса и IP-адреса не сохраняются.',
+  'consent.allow': 'Разрешить',
+  'consent.decline': 'Отказаться',
+
+  'map.station': 'Избирательный участок',
+  'map.precinct': 'Участок {id}',
+  'map.loading': 'Загрузка…',
+  'map.route': '📍 Маршрут отсюда',
+  'map.close': '✕ Закрыть',
+  'map.privacy': 'Ваш домашний адрес не передаётся картографическим сервисам',
+  'map.noPrecinct': 'Участок не указан',
+  'map.notInDataset': 'Этого участка пока нет в наших данных',
+  'map.noDataset': 'Адреса участков пока недоступны',
+  'map.noLocation': 'Для этого участка нет координат',
+  'map.noGeolocation': 'Браузер не может определить местоположение',
+  'map.locationUnavailable': 'Местоположение недоступно или не разрешено',
+  'map.youAreHere': 'Вы здесь',
+  'map.directions': 'Пешеходный маршрут (OpenStreetMap)',
+  'map.distance': '≈ {km} км по прямой',
+};
@@ -0,0 +1,51 @@
+// Electoral precincts, shared by the server (dataset and /api/precincts/:id) and the client
+// (result cards). The registry's district column holds "<commission>/<precinct>", e.g. "9/35":
+// territorial electoral commission 9, precinct 35.
+
+export interface PrecinctId {
+  // Territorial electoral commission (ԸԸՀ) number
+  commission: number;
+  // Precinct number within the commission
+  precinct: number;
+}
+
+// A polling station from the bundled dataset
+export interface PollingStation {
+  // Canonical id, e.g. "9/35"
+  id: string;
+  address: string;
+  // Building or room, e.g. "School No. 12, gym"
+  place?: string;
+  location?: { lat: number; lng: number };
+  // Opening hours on election day, e.g. "08:00-20:00"
+  hours: string;
+}
+
+// Body of GET /api/precincts/:id
+export interface PrecinctResponse {
+  success: boolean;
+  precinct?: PollingStation;
+  error?: string;
+}
+
+// Accepts "9/35", "09/035" and the URL form "9-35"
+const PRECINCT_ID_PATTERN = /^(\d{1,3})\s*[/-]\s*(\d{1,4})$/;
+
+export function parsePrecinctId(value: string | undefined): PrecinctId | null {
+  const match = value?.trim().match(PRECINCT_ID_PATTERN);
+  if (!match) return null;
+
+  const commission = parseInt(match[1], 10);
+  const precinct = parseInt(match[2], 10);
+  return commission > 0 && precinct > 0 ? { commission, precinct } : null;
+}
+
+// Canonical form as printed by the registry: "9/35", "4/06"
+export function formatPrecinctId(id: PrecinctId): string {
+  return `${id.commission}/${String(id.precinct).padStart(2, '0')}`;
+}
+
+// Path segment for /api/precincts/:id; a slash would split the route
+export function precinctPathSegment(id: PrecinctId): string {
+  return formatPrecinctId(id).replace('/', '-');
+}
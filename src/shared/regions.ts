@@ -0,0 +1,21 @@
+// Marzes and their communities, shared by the server (catalog, /api/regions and search
+// validation) and the client (region and community pickers of the search form).
+
+export interface Region {
+  // Upper case, as the registry spells it, e.g. "ՎԱՅՈՑ ՁՈՐ"
+  name: string;
+  communities: string[];
+}
+
+// Body of GET /api/regions
+export interface RegionsResponse {
+  success: boolean;
+  regions?: Region[];
+  error?: string;
+}
+
+// Key for comparing names regardless of case. Upper-casing "եւ" (what search input is
+// normalized to) gives "ԵՒ", while the registry writes "ԵՎ".
+export function regionNameKey(name: string): string {
+  return name.trim().toUpperCase().replace(/ԵՒ/g, 'ԵՎ');
+}
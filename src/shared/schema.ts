@@ -0,0 +1,221 @@
+// Request/response schema shared by the Express server and the browser client.
+// The server validates every /api/search body against SEARCH_FIELDS at runtime.
+
+import { transliterateToArmenian } from './transliteration.js';
+import { formatDate, isAfter, parseDate, today } from './dates.js';
+import { DEFAULT_LANGUAGE, Language, translate } from './i18n.js';
+
+export const METRICS_CONSENT_HEADER = 'X-Metrics-Consent';
+
+export const DEFAULT_REGION = 'ԵՐԵՎԱՆ';
+
+// Highest registry result page a client may ask for
+export const MAX_PAGE = 50;
+
+// Search request accepted by POST /api/search
+export interface SearchRequest {
+  first_name: string;
+  last_name: string;
+  middle_name?: string;
+  birth_date?: string;
+  street?: string;
+  building?: string;
+  apartment?: string;
+  district?: string;
+  region?: string;
+  community?: string;
+  // 1-based registry result page; only this page is fetched upstream (default 1)
+  page?: number;
+}
+
+// Free-text fields of a search request
+export type SearchField = Exclude<keyof SearchRequest, 'page'>;
+
+// Single row of the registry result table
+export interface SearchResult {
+  name: string;
+  birth_date: string;
+  region_community: string;
+  address: string;
+  district: string;
+  // Set when the privacy policy withheld the birth date and address numbers because
+  // the search did not include this voter's birth date
+  masked?: boolean;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Stable machine-readable outcome codes carried by /api/search responses
+export const ERROR_CODES = [
+  'VALIDATION',
+  'UPSTREAM_UNAVAILABLE',
+  'TOKEN_UNAVAILABLE',
+  'PARSE_FAILED',
+  'TIMEOUT',
+  'RATE_LIMITED',
+  'SHUTTING_DOWN',
+  'INTERNAL',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+// Body of every /api/search response
+export interface SearchResponse {
+  success: boolean;
+  code?: ErrorCode;
+  count?: number;
+  results?: SearchResult[];
+  // Page the results belong to, and whether the registry may have more after it
+  page?: number;
+  hasMore?: boolean;
+  error?: string;
+  errors?: FieldError[];
+  details?: string;
+}
+
+interface FieldRule {
+  required: boolean;
+  minLength: number;
+  maxLength: number;
+  // Latin and Cyrillic input is converted to Armenian before searching
+  transliterate?: boolean;
+  // Must be a real calendar date (see dates.ts), not after today; searched as DD/MM/YYYY
+  date?: boolean;
+}
+
+export const SEARCH_FIELDS: Record<SearchField, FieldRule> = {
+  first_name: { required: true, minLength: 2, maxLength: 100, transliterate: true },
+  last_name: { required: true, minLength: 2, maxLength: 100, transliterate: true },
+  middle_name: { required: false, minLength: 0, maxLength: 100, transliterate: true },
+  birth_date: { required: false, minLength: 0, maxLength: 10, date: true },
+  street: { required: false, minLength: 0, maxLength: 100, transliterate: true },
+  building: { required: false, minLength: 0, maxLength: 20 },
+  apartment: { required: false, minLength: 0, maxLength: 20 },
+  district: { required: false, minLength: 0, maxLength: 20 },
+  region: { required: false, minLength: 0, maxLength: 50 },
+  community: { required: false, minLength: 0, maxLength: 100 },
+};
+
+export type ValidationResult =
+  { ok: true; value: SearchRequest } | { ok: false; errors: FieldError[] };
+
+// Normalize Armenian text: convert "և" to "եւ" (the registry only matches the two-letter form)
+export function normalizeArmenianText(text: string): string {
+  if (!text) return text;
+  return text.replace(/և/g, 'եւ');
+}
+
+// The value a field is searched with: trimmed, transliterated if the field allows it,
+// and Armenian-normalized. Dates in any accepted format become DD/MM/YYYY.
+export function normalizeFieldValue(field: SearchField, value: string): string {
+  const text = value.trim();
+  if (SEARCH_FIELDS[field].date) {
+    const date = parseDate(text);
+    return date ? formatDate(date) : text;
+  }
+  return normalizeArmenianText(
+    SEARCH_FIELDS[field].transliterate ? transliterateToArmenian(text) : text
+  );
+}
+
+// Trim and normalize every field; empty optional fields are dropped
+export function normalizeSearchRequest(request: SearchRequest): SearchRequest {
+  const normalized: Partial<Record<SearchField, string>> = {};
+
+  for (const field of Object.keys(SEARCH_FIELDS) as SearchField[]) {
+    const value = request[field];
+    if (typeof value !== 'string') continue;
+
+    const text = normalizeFieldValue(field, value);
+    if (text || SEARCH_FIELDS[field].required) {
+      normalized[field] = text;
+    }
+  }
+
+  const result = normalized as SearchRequest;
+  if (typeof request.page === 'number') {
+    result.page = request.page;
+  }
+  return result;
+}
+
+// Validate an untrusted request body. Unknown fields, non-string text values and
+// out-of-range pages are rejected; error messages are in the given language.
+export function validateSearchRequest(
+  body: unknown,
+  language: Language = DEFAULT_LANGUAGE
+): ValidationResult {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return {
+      ok: false,
+      errors: [{ field: '', message: translate(language, 'validation.notObject') }],
+    };
+  }
+
+  const input = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  for (const field of Object.keys(input)) {
+    if (!Object.prototype.hasOwnProperty.call(SEARCH_FIELDS, field) && field !== 'page') {
+      errors.push({ field, message: translate(language, 'validation.unknownField') });
+    }
+  }
+
+  for (const [field, rule] of Object.entries(SEARCH_FIELDS)) {
+    const value = input[field];
+
+    if (value === undefined || value === null) {
+      if (rule.required) {
+        errors.push({ field, message: translate(language, 'validation.required') });
+      }
+      continue;
+    }
+
+    if (typeof value !== 'string') {
+      errors.push({ field, message: translate(language, 'validation.notString') });
+      continue;
+    }
+
+    const text = normalizeFieldValue(field as SearchField, value);
+    const date = text && rule.date ? parseDate(text) : null;
+
+    if (rule.required && !text) {
+      errors.push({ field, message: translate(language, 'validation.required') });
+    } else if (text && rule.date && !date) {
+      errors.push({ field, message: translate(language, 'validation.date') });
+    } else if (date && isAfter(date, today())) {
+      errors.push({ field, message: translate(language, 'validation.futureDate') });
+    } else if (text && text.length < rule.minLength) {
+      errors.push({
+        field,
+        message: translate(language, 'validation.minLength', { min: rule.minLength }),
+      });
+    } else if (text.length > rule.maxLength) {
+      errors.push({
+        field,
+        message: translate(language, 'validation.maxLength', { max: rule.maxLength }),
+      });
+    }
+  }
+
+  const page = input.page;
+  if (
+    page !== undefined &&
+    page !== null &&
+    !(typeof page === 'number' && Number.isInteger(page) && page >= 1 && page <= MAX_PAGE)
+  ) {
+    errors.push({
+      field: 'page',
+      message: translate(language, 'validation.page', { max: MAX_PAGE }),
+    });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, value: normalizeSearchRequest(input as unknown as SearchRequest) };
+}
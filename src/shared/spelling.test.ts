@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { SearchRequest } from './schema.js';
+import { MAX_SUGGESTIONS, suggestSpellings } from './spelling.js';
+
+const suggested = (request: SearchRequest) =>
+  suggestSpellings(request).map(suggestion => `${suggestion.field}: ${suggestion.value}`);
+
+// One table per rule in spelling.ts: [request, suggested, never suggested]
+const CASES: Record<string, Array<[SearchRequest, string[], string[]]>> = {
+  'surname endings -յան, -ան and -եան': [
+    [
+      { first_name: 'ԱՐՄԵՆ', last_name: 'ՊԵՏՐՈՍՅԱՆ' },
+      ['last_name: ՊԵՏՐՈՍԱՆ'],
+      ['first_name: ԱՐՄԵՆ'],
+    ],
+    [
+      { first_name: 'ԱՐՄԵՆ', last_name: 'ՊԵՏՐՈՍԵԱՆ' },
+      ['last_name: ՊԵՏՐՈՍՅԱՆ'],
+      ['last_name: ՊԵՏՐՈՍԵՅԱՆ'],
+    ],
+    [{ first_name: 'ԱՐԱՄ', last_name: 'ՄԵԼՔՈՆ' }, [], []],
+    [
+      { first_name: 'ԱՐՄԵՆ', last_name: 'ՏԵՐ-ՊԵՏՐՈՍՅԱՆ' },
+      ['last_name: ՏԵՐ-ՊԵՏՐՈՍԱՆ'],
+      ['last_name: ՏԵՐ-ՊԵՏՐՕՍՅԱՆ', 'last_name: ՏԷՐ-ՊԵՏՐՈՍՅԱՆ'],
+    ],
+  ],
+  'է/ե and օ/ո at the start of a word only': [
+    [
+      { first_name: 'ԷԴԳԱՐ', last_name: 'ՕՀԱՆՅԱՆ' },
+      ['last_name: ՈՀԱՆՅԱՆ', 'first_name: ԵԴԳԱՐ'],
+      [],
+    ],
+    [
+      { first_name: 'ԵՐՎԱՆԴ', last_name: 'ՈՍԿԱՆՅԱՆ' },
+      ['last_name: ՕՍԿԱՆՅԱՆ', 'first_name: ԷՐՎԱՆԴ'],
+      [],
+    ],
+    [
+      { first_name: 'ԳԵՎՈՐԳ', last_name: 'ՄԵԼՔՈՆՅԱՆ' },
+      [],
+      ['first_name: ԳԷՎՈՐԳ', 'first_name: ԳԵՎՕՐԳ', 'last_name: ՄԵԼՔՕՆՅԱՆ'],
+    ],
+    [{ first_name: 'ԱՆԻ', last_name: 'ԱՂԵՔՍԱՆ-ՕՀԱՆՅԱՆ' }, ['last_name: ԱՂԵՔՍԱՆ-ՈՀԱՆՅԱՆ'], []],
+  ],
+  'եւ/եվ anywhere': [
+    [
+      { first_name: 'ԳԵՎՈՐԳ', last_name: 'ՍԵՎԱՆՅԱՆ' },
+      ['last_name: ՍԵՒԱՆՅԱՆ', 'first_name: ԳԵՒՈՐԳ'],
+      ['last_name: ՍԵՒԱՆԵԱՆ'],
+    ],
+    [
+      { first_name: 'Դավիթ', last_name: 'Գեւորգյան' },
+      ['last_name: Գեվորգյան'],
+      ['last_name: Գեւօրգյան', 'first_name: Դաուիթ'],
+    ],
+  ],
+  'ու/վ between a consonant and ա only': [
+    [{ first_name: 'ՆՎԱՐԴ', last_name: 'ՄԵԼՔՈՆ' }, ['first_name: ՆՈՒԱՐԴ'], []],
+    [{ first_name: 'ԷԴՈՒԱՐԴ', last_name: 'ՄԵԼՔՈՆ' }, ['first_name: ԷԴՎԱՐԴ'], []],
+    [
+      { first_name: 'ԴԱՎԻԹ', last_name: 'ՕՎՍԵՓՅԱՆ' },
+      ['last_name: ՈՎՍԵՓՅԱՆ'],
+      ['last_name: ՕՈՒՍԵՓՅԱՆ', 'first_name: ԴԱՈՒԻԹ'],
+    ],
+    [
+      { first_name: 'ԱՎԱԳ', last_name: 'ՍՈՒՔԻԱՍՅԱՆ' },
+      [],
+      ['first_name: ԱՈՒԱԳ', 'last_name: ՍՎՔԻԱՍՅԱՆ'],
+    ],
+  ],
+};
+
+describe('suggestSpellings', () => {
+  for (const [rule, cases] of Object.entries(CASES)) {
+    describe(rule, () => {
+      it.each(cases)('%o', (request, expected, unexpected) => {
+        const suggestions = suggested(request);
+
+        expect(suggestions).toEqual(expect.arrayContaining(expected));
+        for (const value of unexpected) {
+          expect(suggestions).not.toContain(value);
+        }
+      });
+    });
+  }
+
+  it('suggests nothing for a name with no ambiguous spelling', () => {
+    expect(suggested({ first_name: 'ԱՐԱՄ', last_name: 'ՄԵԼՔՈՆ' })).toEqual([]);
+  });
+
+  it('offers the surname ending first and keeps it within the limit', () => {
+    const suggestions = suggested({
+      first_name: 'ԵՎԳԵՆԻԱ',
+      middle_name: 'ԵՎԳԵՆԻԻ',
+      last_name: 'ՕՀԱՆԵԱՆ',
+    });
+
+    expect(suggestions).toHaveLength(MAX_SUGGESTIONS);
+    expect(suggestions[0]).toBe('last_name: ՕՀԱՆՅԱՆ');
+  });
+
+  it('writes variants in the case the value was typed in', () => {
+    expect(suggested({ first_name: 'Էդգար', last_name: 'Պետրոսյան' })).toEqual([
+      'last_name: Պետրոսան',
+      'first_name: Եդգար',
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+// Spelling variants offered when a search finds nobody. The registry only matches exact
+// spellings, while several Armenian letters and surname endings are used interchangeably.
+// Suggestions are computed locally; the registry is only queried again for the variant
+// the user picks.
+
+import { SearchField, SearchRequest, normalizeFieldValue } from './schema.js';
+
+export interface SpellingSuggestion {
+  field: SearchField;
+  // Already normalized, as the search would send it
+  value: string;
+}
+
+interface VariantRule {
+  // Matched against the lower-cased value
+  pattern: RegExp;
+  replacement: string;
+  // Only tried on last_name
+  surname?: boolean;
+}
+
+// Each rule swaps one spelling for another, and only where both are actually written.
+// Surname endings differ most often and come first, so the limit never drops them.
+// Searches never contain "և": normalizeArmenianText has turned it into "եւ", so the
+// ligature's variant is "եվ".
+const VARIANT_RULES: VariantRule[] = [
+  // Surname endings: -յան, -ան and the classical -եան
+  { pattern: /յան(?!\p{L})/gu, replacement: 'ան', surname: true },
+  { pattern: /եան(?!\p{L})/gu, replacement: 'յան', surname: true },
+  { pattern: /(?<![յե])ան(?!\p{L})/gu, replacement: 'յան', surname: true },
+  // At the start of a word (also after "-") only: Էդուարդ/Եդուարդ, Օհանյան/Ոհանյան
+  { pattern: /(?<!\p{L})է/gu, replacement: 'ե' },
+  { pattern: /(?<!\p{L})ե(?!ւ)/gu, replacement: 'է' },
+  { pattern: /(?<!\p{L})օ/gu, replacement: 'ո' },
+  { pattern: /(?<!\p{L})ո(?!ւ)/gu, replacement: 'օ' },
+  { pattern: /եւ/g, replacement: 'եվ' },
+  { pattern: /եվ/g, replacement: 'եւ' },
+  // Between a consonant and ա only: Նուարդ/Նվարդ, Զուարթ/Զվարթ
+  { pattern: /(?<=\p{L})(?<![աեէըիոօւ])ու(?=ա)/gu, replacement: 'վ' },
+  { pattern: /(?<=\p{L})(?<![աեէըիոօւ])վ(?=ա)/gu, replacement: 'ու' },
+];
+
+// Surnames vary the most, so their variants come first
+const SUGGESTED_FIELDS: SearchField[] = ['last_name', 'first_name', 'middle_name'];
+
+export const MAX_SUGGESTIONS = 6;
+
+// Write the replacement in the case of the text it replaces
+function matchCase(replacement: string, replaced: string, allCaps: boolean): string {
+  if (allCaps) return replacement.toUpperCase();
+  if (replaced[0] !== replaced[0].toLowerCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+// Variants of one value that differ from it in a single place
+function variantsOf(value: string, surname: boolean): string[] {
+  const lower = value.toLowerCase();
+  const allCaps = value === value.toUpperCase() && value !== lower;
+  const variants: string[] = [];
+
+  for (const rule of VARIANT_RULES) {
+    if (rule.surname && !surname) continue;
+
+    for (const match of lower.matchAll(rule.pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const replaced = value.slice(start, end);
+      variants.push(
+        value.slice(0, start) + matchCase(rule.replacement, replaced, allCaps) + value.slice(end)
+      );
+    }
+  }
+
+  return variants;
+}
+
+// Likely spellings for a search that found nobody, one changed field at a time
+export function suggestSpellings(
+  request: SearchRequest,
+  limit: number = MAX_SUGGESTIONS
+): SpellingSuggestion[] {
+  const suggestions: SpellingSuggestion[] = [];
+
+  for (const field of SUGGESTED_FIELDS) {
+    const value = request[field];
+    if (!value) continue;
+
+    const current = normalizeFieldValue(field, value);
+    const seen = new Set([current]);
+
+    for (const variant of variantsOf(current, field === 'last_name')) {
+      const normalized = normalizeFieldValue(field, variant);
+      if (seen.has(normalized)) continue;
+
+      seen.add(normalized);
+      suggestions.push({ field, value: normalized });
+      if (suggestions.length >= limit) return suggestions;
+    }
+  }
+
+  return suggestions;
+}
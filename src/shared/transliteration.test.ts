@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { transliterateToArmenian } from './transliteration.js';
+
+// One table per ambiguous spelling listed at the top of transliteration.ts
+const CASES: Record<string, Array<[string, string]>> = {
+  'ts: ց at the end of a word, ծ elsewhere': [
+    ['Mashtots', 'Մաշտոց'],
+    ['Mkrtchyants', 'Մկրտչյանց'],
+    ['Tsatur', 'Ծատուր'],
+    ['Tsaghkadzor', 'Ծաղկաձոր'],
+    // A fixed choice, even where the Armenian spelling has ց
+    ['Artsakh', 'Արծախ'],
+  ],
+  'e: է at the start of a word, ե elsewhere': [
+    ['Eduard', 'Էդուարդ'],
+    ['Erik', 'Էրիկ'],
+    ['Petrosyan', 'Պետրոսյան'],
+    ['Evelina', 'Էվելինա'],
+  ],
+  'ev: և inside a word': [
+    ['Gevorg', 'Գևորգ'],
+    ['Sevan', 'Սևան'],
+    ['Yerevan', 'Երևան'],
+  ],
+  'ye and vo: ե and ո at the start of a word': [
+    ['Yeghiazaryan', 'Եղիազարյան'],
+    ['Voskanyan', 'Ոսկանյան'],
+    ['Vorotan', 'Որոտան'],
+    ['Hovhannes', 'Հովհաննես'],
+    ['Movses', 'Մովսես'],
+    ['Hakobyan', 'Հակոբյան'],
+    ['Ohanyan', 'Օհանյան'],
+  ],
+  'apostrophes: the aspirated letter': [
+    ["T'adevos", 'Թադևոս'],
+    ["K'ocharyan", 'Քոչարյան'],
+    ["P'ap'azyan", 'Փափազյան'],
+    ["Ch'arents", 'Չարենց'],
+    ["Ts'ovak", 'Ցովակ'],
+    ['Tigran', 'Տիգրան'],
+  ],
+  Cyrillic: [
+    ['Петросян', 'Պետրոսյան'],
+    ['Геворг', 'Գևորգ'],
+    ['Восканян', 'Ոսկանյան'],
+    ['Оганесян', 'Օգանեսյան'],
+    ['Эдуард', 'Էդուարդ'],
+    ['Арцрун', 'Արցրուն'],
+    ['Тхагуни', 'Թագունի'],
+    ['Юрий', 'Յուրիյ'],
+  ],
+  'case, whole strings and what is kept': [
+    ['PETROSYAN', 'ՊԵՏՐՈՍՅԱՆ'],
+    ['armen', 'արմեն'],
+    ['Armen Petrosyan', 'Արմեն Պետրոսյան'],
+    ['Komitas 7/2', 'Կոմիտաս 7/2'],
+    ['Պետրոսյան', 'Պետրոսյան'],
+    ['Արմեն Petrosyan', 'Արմեն Պետրոսյան'],
+    ['', ''],
+  ],
+};
+
+describe('transliterateToArmenian', () => {
+  for (const [rule, cases] of Object.entries(CASES)) {
+    describe(rule, () => {
+      it.each(cases)('%s → %s', (input, expected) => {
+        expect(transliterateToArmenian(input)).toBe(expected);
+      });
+    });
+  }
+});
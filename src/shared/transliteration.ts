@@ -0,0 +1,179 @@
+// Latin and Cyrillic to Armenian transliteration, shared by the server (search
+// normalization) and the client (live preview under the name and street fields).
+// The registry only matches Armenian script, so "Petrosyan" and "Петросян" both become
+// "Պետրոսյան". Armenian text passes through unchanged.
+//
+// Where one Latin or Cyrillic spelling can stand for several Armenian letters, the
+// choice is fixed so the same input always gives the same output:
+// - ch → չ (not ճ); t, k, p → տ, կ, պ; th, ph → թ, փ; q → ք; r → ր (rr → ռ)
+// - ts → ծ, but ց at the end of a word (Mashtots → Մաշտոց); c and ц → ց
+// - e → է at the start of a word, ե elsewhere; ye at the start of a word → ե
+// - o → օ at the start of a word, ո elsewhere; vo at the start of a word → ո
+// - ev inside a word → և (Gevorg → Գևորգ)
+// - an apostrophe marks the aspirated letter: t' → թ, k' → ք, p' → փ, ch' → չ, ts' → ց
+
+interface Rule {
+  from: string;
+  to: string;
+  // Only match at the start of a word, at its end, or anywhere but its start
+  at?: 'start' | 'end' | 'inside';
+}
+
+// Longer spellings come first, so "kh" wins over "k" followed by "h"
+const RULES: Rule[] = [
+  // Latin
+  { from: "ch'", to: 'չ' },
+  { from: "ts'", to: 'ց' },
+  { from: 'ye', to: 'ե', at: 'start' },
+  { from: 'vo', to: 'ո', at: 'start' },
+  { from: 'ev', to: 'և', at: 'inside' },
+  { from: 'ts', to: 'ց', at: 'end' },
+  { from: 'ts', to: 'ծ' },
+  { from: 'ch', to: 'չ' },
+  { from: 'dj', to: 'ջ' },
+  { from: 'dz', to: 'ձ' },
+  { from: 'gh', to: 'ղ' },
+  { from: 'kh', to: 'խ' },
+  { from: 'ou', to: 'ու' },
+  { from: 'ph', to: 'փ' },
+  { from: 'rr', to: 'ռ' },
+  { from: 'sh', to: 'շ' },
+  { from: 'th', to: 'թ' },
+  { from: 'zh', to: 'ժ' },
+  { from: "k'", to: 'ք' },
+  { from: "p'", to: 'փ' },
+  { from: "t'", to: 'թ' },
+  { from: 'e', to: 'է', at: 'start' },
+  { from: 'o', to: 'օ', at: 'start' },
+  { from: 'a', to: 'ա' },
+  { from: 'b', to: 'բ' },
+  { from: 'c', to: 'ց' },
+  { from: 'd', to: 'դ' },
+  { from: 'e', to: 'ե' },
+  { from: 'f', to: 'ֆ' },
+  { from: 'g', to: 'գ' },
+  { from: 'h', to: 'հ' },
+  { from: 'i', to: 'ի' },
+  { from: 'j', to: 'ջ' },
+  { from: 'k', to: 'կ' },
+  { from: 'l', to: 'լ' },
+  { from: 'm', to: 'մ' },
+  { from: 'n', to: 'ն' },
+  { from: 'o', to: 'ո' },
+  { from: 'p', to: 'պ' },
+  { from: 'q', to: 'ք' },
+  { from: 'r', to: 'ր' },
+  { from: 's', to: 'ս' },
+  { from: 't', to: 'տ' },
+  { from: 'u', to: 'ու' },
+  { from: 'v', to: 'վ' },
+  { from: 'w', to: 'վ' },
+  { from: 'x', to: 'քս' },
+  { from: 'y', to: 'յ' },
+  { from: 'z', to: 'զ' },
+
+  // Cyrillic
+  { from: 'во', to: 'ո', at: 'start' },
+  { from: 'ев', to: 'և', at: 'inside' },
+  { from: 'гх', to: 'ղ' },
+  { from: 'дж', to: 'ջ' },
+  { from: 'дз', to: 'ձ' },
+  { from: 'кх', to: 'խ' },
+  { from: 'пх', to: 'փ' },
+  { from: 'рр', to: 'ռ' },
+  { from: 'тх', to: 'թ' },
+  { from: 'о', to: 'օ', at: 'start' },
+  { from: 'а', to: 'ա' },
+  { from: 'б', to: 'բ' },
+  { from: 'в', to: 'վ' },
+  { from: 'г', to: 'գ' },
+  { from: 'д', to: 'դ' },
+  { from: 'е', to: 'ե' },
+  { from: 'ё', to: 'յո' },
+  { from: 'ж', to: 'ժ' },
+  { from: 'з', to: 'զ' },
+  { from: 'и', to: 'ի' },
+  { from: 'й', to: 'յ' },
+  { from: 'к', to: 'կ' },
+  { from: 'л', to: 'լ' },
+  { from: 'м', to: 'մ' },
+  { from: 'н', to: 'ն' },
+  { from: 'о', to: 'ո' },
+  { from: 'п', to: 'պ' },
+  { from: 'р', to: 'ր' },
+  { from: 'с', to: 'ս' },
+  { from: 'т', to: 'տ' },
+  { from: 'у', to: 'ու' },
+  { from: 'ф', to: 'ֆ' },
+  { from: 'х', to: 'խ' },
+  { from: 'ц', to: 'ց' },
+  { from: 'ч', to: 'չ' },
+  { from: 'ш', to: 'շ' },
+  { from: 'щ', to: 'շ' },
+  { from: 'ъ', to: '' },
+  { from: 'ы', to: 'ը' },
+  { from: 'ь', to: '' },
+  { from: 'э', to: 'է' },
+  { from: 'ю', to: 'յու' },
+  { from: 'я', to: 'յա' },
+];
+
+const FOREIGN_LETTER = /[a-zа-яё]/i;
+// Apostrophes belong to the word so "t'" can be matched
+const WORD = /[\p{L}']+/gu;
+
+function matches(rule: Rule, word: string, index: number): boolean {
+  if (!word.startsWith(rule.from, index)) return false;
+
+  switch (rule.at) {
+    case 'start':
+      return index === 0;
+    case 'end':
+      return index + rule.from.length === word.length;
+    case 'inside':
+      return index > 0;
+    default:
+      return true;
+  }
+}
+
+// Upper-case the first letter only; "ու" becomes "Ու"
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function transliterateWord(word: string): string {
+  if (!FOREIGN_LETTER.test(word)) return word;
+
+  // Lower-cased one character at a time so indexes line up with the original
+  const lower = word
+    .split('')
+    .map(char => (char.toLowerCase().length === 1 ? char.toLowerCase() : char))
+    .join('');
+  const allCaps = word.length > 1 && word === word.toUpperCase();
+  let result = '';
+  let index = 0;
+
+  while (index < lower.length) {
+    const rule = RULES.find(candidate => matches(candidate, lower, index));
+
+    if (!rule) {
+      // Armenian letters, apostrophes and letters without a mapping are kept
+      result += word[index];
+      index += 1;
+      continue;
+    }
+
+    const upper = word[index] !== lower[index];
+    result += allCaps ? rule.to.toUpperCase() : upper ? capitalize(rule.to) : rule.to;
+    index += rule.from.length;
+  }
+
+  return result;
+}
+
+// Transliterate every Latin or Cyrillic word; digits, punctuation and Armenian are kept
+export function transliterateToArmenian(text: string): string {
+  if (!text || !FOREIGN_LETTER.test(text)) return text;
+  return text.replace(WORD, transliterateWord);
+}
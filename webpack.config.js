@@ -6,10 +6,14 @@ const __dirname = path.dirname(__filename);
 
 export default (env, argv) => ({
   mode: argv.mode || 'development',
-  entry: './src/client/app.ts',
+  entry: {
+    bundle: './src/client/app.ts',
+    // Script of public/map.html
+    map: './src/client/map-page.ts'
+  },
   output: {
     path: path.resolve(__dirname, 'public/dist'),
-    filename: 'bundle.js',
+    filename: '[name].js',
     clean: true
   },
   module: {
@@ -31,7 +35,11 @@ export default (env, argv) => ({
     ]
   },
   resolve: {
-    extensions: ['.tsx', '.ts', '.js']
+    extensions: ['.tsx', '.ts', '.js'],
+    // Shared modules use Node ESM-style `.js` specifiers; map them back to the TS sources
+    extensionAlias: {
+      '.js': ['.ts', '.js']
+    }
   },
   devServer: {
     port: 3000,